@@ -0,0 +1,10 @@
+import Sidebar from "./sidebar";
+
+// Chat pages get the sidebar; standalone routes such as /share/[id] don't
+export default function ChatLayout({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            <Sidebar>{children}</Sidebar>
+        </div>
+    );
+}
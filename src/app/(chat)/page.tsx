@@ -0,0 +1,1142 @@
+"use client";
+
+import { useState, useRef, useEffect, useEffectEvent, useCallback, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Bot, Sparkles, Loader2, User, CircleStop, WifiOff, AlertCircle, RotateCw, X, MessageSquareOff, RefreshCw, Pencil, ChevronLeft, ChevronRight, Archive, ArchiveRestore } from "lucide-react";
+import { v4 as uuidv4 } from 'uuid';
+import { useSearchParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { motion, AnimatePresence } from "framer-motion";
+import { useSystemStatus } from "@/context/system-status-context";
+import { useSessions } from "@/context/sessions-context";
+import {
+    ApiError,
+    StreamInterruptedError,
+    fetchHistory,
+    fetchSession,
+    updateSession,
+    streamChat,
+    resumeChatStream,
+    cancelRun,
+    submitToolDecision,
+    type AgentEventHandler,
+    type Attachment,
+    type HistoryMessage,
+    type PromptTemplate,
+    type Session,
+    type ToolDecision,
+} from "@/services/api";
+import { MAX_ATTACHMENTS, readAttachment, validateAttachment } from "@/services/attachments";
+import { applyToolEvent, finishToolSteps, foldToolMessages, unfoldToolMessages, type ToolStep } from "@/services/tool-steps";
+import { useConversationTree, type Message, type MessageNode, type SiblingInfo } from "@/hooks/use-conversation-tree";
+import { useFrameBatchedState } from "@/hooks/use-frame-batched-state";
+import { useDraft } from "@/hooks/use-draft";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+import { readAgentSettings, saveAgentSettings, useAgentSettings } from "@/hooks/use-agent-settings";
+import { enqueueMessage, getQueuedMessages, removeQueuedMessage, updateQueuedMessage, useOutbox } from "@/hooks/use-outbox";
+import { ToolTimeline } from "@/components/chat/tool-timeline";
+import { MessageRenderer } from "@/components/chat/message-renderer";
+import { Composer } from "@/components/chat/composer";
+import { MessageBody } from "@/components/chat/message-body";
+import { MessageList } from "@/components/chat/message-list";
+import { PendingMessage } from "@/components/chat/pending-message";
+import { ToolApprovalCard, type ToolApprovalRequest } from "@/components/chat/tool-approval-card";
+import { AgentSettingsSheet, AgentSettingsSummary } from "@/components/chat/agent-settings";
+import { TemplateCards } from "@/components/templates/template-cards";
+import { TemplateFormDialog } from "@/components/templates/template-form-dialog";
+import { TemplateLibraryDialog } from "@/components/templates/template-library-dialog";
+import type { OutboxEntry } from "@/services/outbox";
+import { errorMessage, isNotFound, toAppError, type AppError } from "@/services/errors";
+import { fillTemplate, slashQuery, templateVariables } from "@/services/templates";
+
+const RESUME_ATTEMPTS = 5;
+const RESUME_BASE_DELAY_MS = 1_000; // Doubled after each failed reconnect
+const BACKGROUND_RUN_TIMEOUT_MS = 5 * 60_000; // Outbox sends for other sessions give up after this
+
+// Without an id there is nothing to answer, and the paused run would wait forever
+const MISSING_TOOL_CALL_ID = "The agent asked to approve a tool call without a tool_call_id";
+
+/** Resolves after `ms`, or rejects with an AbortError once `signal` fires. */
+function wait(ms: number, signal: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal.aborted) return reject(new DOMException("Aborted", "AbortError"));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException("Aborted", "AbortError"));
+        };
+        // Removed once the delay is over, so retries don't pile listeners onto the run's signal
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+type ResumeOutcome =
+    | { status: "resumed" }                       // Reattached; the rest of the answer came through onEvent
+    | { status: "reconciled"; message: Message }  // The run had finished — its answer, from the history
+    | { status: "lost" };
+
+/** The stored answer to `turn` if the history ends with it, else null. */
+async function storedAnswer(sessionId: string, turn: Message): Promise<Message | null> {
+    const stored = foldToolMessages((await fetchHistory(sessionId)).items);
+    const [question, answer] = stored.slice(-2);
+    return answer?.role === "ai" && question?.role === "human" && question.content === turn.content ? answer : null;
+}
+
+/**
+ * Recovers from a dropped stream: reconnects with Last-Event-ID, backing off
+ * between attempts, and falls back to the stored history when the backend
+ * can't resume the run. A stream that never sent an id can't be resumed
+ * without replaying it from the start onto what was shown, so the answer is
+ * then only polled from the history.
+ */
+async function resumeStream(
+    sessionId: string,
+    turn: Message,
+    interruption: StreamInterruptedError,
+    onEvent: AgentEventHandler,
+    signal: AbortSignal,
+): Promise<ResumeOutcome> {
+    let lastEventId = interruption.lastEventId;
+    let delay = interruption.retryMs ?? RESUME_BASE_DELAY_MS;
+    for (let attempt = 0; attempt < RESUME_ATTEMPTS; attempt++) {
+        await wait(delay, signal);
+        if (!lastEventId) {
+            try {
+                const answer = await storedAnswer(sessionId, turn);
+                if (answer) return { status: "reconciled", message: answer };
+            } catch (error) {
+                if (signal.aborted) throw error;
+            }
+            delay *= 2; // Still running, or the backend is still unreachable
+            continue;
+        }
+        try {
+            await resumeChatStream(sessionId, lastEventId, onEvent, signal);
+            return { status: "resumed" };
+        } catch (error) {
+            if (error instanceof StreamInterruptedError) {
+                // Got further before dropping again — continue from there
+                lastEventId = error.lastEventId || lastEventId;
+                delay = error.retryMs ?? RESUME_BASE_DELAY_MS;
+                continue;
+            }
+            if (!(error instanceof ApiError)) throw error; // Aborted
+            if (error.status !== null) break;             // Nothing to resume — check the history
+            delay *= 2;                                   // Still unreachable
+        }
+    }
+
+    try {
+        const answer = await storedAnswer(sessionId, turn);
+        if (answer) return { status: "reconciled", message: answer };
+    } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn("Couldn't reconcile the interrupted answer with the history", error);
+    }
+    return { status: "lost" };
+}
+
+/** What the page shows of a run in progress; kept per session since a run goes on after a switch. */
+interface LiveRun {
+    parentId: string;                     // Human turn being answered
+    text: string;                         // Answer so far
+    toolSteps: ToolStep[];                // Moved onto the AI message when the run ends
+    approval: ToolApprovalRequest | null; // Run paused until the user decides
+    isReconnecting: boolean;              // Stream dropped, trying to resume
+}
+
+const NO_TOOL_STEPS: ToolStep[] = [];
+
+// ── Version switcher ("‹ 2/3 ›") for messages with sibling branches ─────────
+function BranchSwitcher({
+    info,
+    disabled,
+    onSwitch,
+}: {
+    info: SiblingInfo;
+    disabled: boolean;
+    onSwitch: (direction: -1 | 1) => void;
+}) {
+    if (info.count < 2) return null;
+    return (
+        <div className="flex items-center gap-0.5 text-[11px] text-muted-foreground tabular-nums">
+            <button
+                onClick={() => onSwitch(-1)}
+                disabled={disabled || info.index === 0}
+                className="p-0.5 rounded hover:bg-muted hover:text-foreground transition-colors disabled:opacity-40"
+                title="Previous version"
+            >
+                <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span>{info.index + 1}/{info.count}</span>
+            <button
+                onClick={() => onSwitch(1)}
+                disabled={disabled || info.index === info.count - 1}
+                className="p-0.5 rounded hover:bg-muted hover:text-foreground transition-colors disabled:opacity-40"
+                title="Next version"
+            >
+                <ChevronRight className="w-3 h-3" />
+            </button>
+        </div>
+    );
+}
+
+export default function ChatPage() {
+    const { thread, reset, prepend, append, remove, switchSibling, siblingInfo, pathTo } = useConversationTree();
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+    const [currentSessionId, setCurrentSessionId] = useState<string>("");
+    const [input, setInput] = useDraft(currentSessionId);
+    const [agentSettings, setAgentSettings] = useAgentSettings(currentSessionId);
+    const [settingsOpen, setSettingsOpen] = useState(false);
+    const { templates, upsertTemplate, removeTemplate } = usePromptTemplates();
+    const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+    const [templatesOpen, setTemplatesOpen] = useState(false);
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [attachmentError, setAttachmentError] = useState<string | null>(null);
+    const [liveRuns, scheduleLiveRuns, setLiveRuns] = useFrameBatchedState<Record<string, LiveRun>>({}); // By session id
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editValue, setEditValue] = useState("");
+    const [olderCursor, setOlderCursor] = useState<string | null>(null); // Next history page going back in time
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+    const [historyError, setHistoryError] = useState<AppError | null>(null);
+    const [sessionMeta, setSessionMeta] = useState<Session | null>(null); // Fetched with the history, for sessions the sidebar hasn't listed
+    // Last send that failed before the agent answered — shown as an error bubble with Retry
+    const [failedRun, setFailedRun] = useState<{
+        sessionId: string;
+        humanId: string;
+        turn: Message;
+        contextId: string | null;
+        error: AppError;
+    } | null>(null);
+    const [flushingId, setFlushingId] = useState<string | null>(null); // Outbox entry being sent as part of the thread
+    const [flushRound, setFlushRound] = useState(0); // Bumped after each outbox send to flush the next entry
+    const [historyReload, setHistoryReload] = useState(0); // Bumped to fetch the history of the session on screen again
+
+    const { systemStatus } = useSystemStatus();
+    const isOffline = systemStatus === "offline";
+    const canFlush = systemStatus === "online" || systemStatus === "degraded";
+    const outbox = useOutbox();
+    const queued = outbox.filter((e) => e.sessionId === currentSessionId && e.id !== flushingId);
+    const { sessions, setArchived, autoTitle } = useSessions();
+    // Archived chats can be read but not continued until they are restored. The sidebar's
+    // copy follows archive toggles, but it only lists archived chats once that view was opened.
+    const listedSession = currentSessionId ? sessions.find((s) => s.id === currentSessionId) : undefined;
+    const currentSession = listedSession ?? (sessionMeta?.id === currentSessionId ? sessionMeta : undefined);
+    const isArchived = !!currentSession?.archived;
+
+    const skipHistoryLoad = useRef(false); // Prevents loadHistory wiping messages on new sessions
+    const historyRequest = useRef(0); // Bumped per session load so stale older pages are dropped
+    const activeRuns = useRef(new Map<string, AbortController>()); // By session id; also set before liveRuns renders
+    const liveRunsRef = useRef<Record<string, LiveRun>>({}); // Latest liveRuns, for updates from several streams
+    const isFlushing = useRef(false);
+    const viewedSessionId = useRef(""); // Session on screen now — runs outlive a switch to another one
+    // Last message the backend has stored for this session; undefined = unknown (after a failed/stopped run)
+    const syncedLeafId = useRef<string | null | undefined>(null);
+    const searchParams = useSearchParams();
+    const router = useRouter();
+
+    const sessionIdFromUrl = searchParams.get("session");
+    const highlightQuery = searchParams.get("highlight"); // Set when arriving from a search hit
+
+    // Only the run of the session on screen shows up in the thread, the footer and the composer
+    const liveRun = liveRuns[currentSessionId] as LiveRun | undefined;
+    const isStreaming = !!liveRun;
+    const isLoading = isLoadingHistory || isStreaming;
+    const streamingMessage = liveRun?.text ?? "";
+    const liveToolSteps = liveRun?.toolSteps ?? NO_TOOL_STEPS;
+    const pendingApproval = liveRun?.approval ?? null;
+    const isReconnecting = liveRun?.isReconnecting ?? false;
+    const runParentId = liveRun?.parentId ?? null;
+
+    /** Merges `update` into a session's live run (null ends it); `batched` coalesces updates per frame. */
+    const updateLiveRun = useCallback((sessionId: string, update: Partial<LiveRun> | null, batched = false) => {
+        const { [sessionId]: current, ...others } = liveRunsRef.current;
+        const next = update === null ? others : { ...others, [sessionId]: { ...current, ...update } as LiveRun };
+        liveRunsRef.current = next;
+        (batched ? scheduleLiveRuns : setLiveRuns)(next);
+    }, [scheduleLiveRuns, setLiveRuns]);
+
+    // While regenerating, hide the old reply below the turn being answered
+    const messages = useMemo(() => {
+        const index = runParentId ? thread.findIndex((m) => m.id === runParentId) : -1;
+        return index === -1 ? thread : thread.slice(0, index + 1);
+    }, [thread, runParentId]);
+
+    useEffect(() => {
+        viewedSessionId.current = currentSessionId;
+    }, [currentSessionId]);
+
+    useEffect(() => {
+        if (sessionIdFromUrl) {
+            setCurrentSessionId(sessionIdFromUrl);
+        } else {
+            setCurrentSessionId(""); // No session = Welcome Screen
+            setOlderCursor(null);
+            syncedLeafId.current = reset([]);
+        }
+    }, [sessionIdFromUrl, reset]);
+
+    const loadHistory = useCallback(async () => {
+        if (!currentSessionId) return;
+        // Skip if this session was just created locally — messages are already set
+        if (skipHistoryLoad.current) {
+            skipHistoryLoad.current = false;
+            return;
+        }
+        syncedLeafId.current = reset([]);   // Clear old session messages so overlay shows
+        setOlderCursor(null);
+        setHistoryError(null);
+        setSessionMeta(null);
+        const request = ++historyRequest.current;
+        setIsLoadingHistory(true);
+        // Session details (archived flag, title) don't hold up the messages; a failure just leaves them unknown
+        fetchSession(currentSessionId)
+            .then((session) => request === historyRequest.current && setSessionMeta(session))
+            .catch((error) => console.warn("Session fetch failed", error));
+        try {
+            const page = await fetchHistory(currentSessionId);
+            syncedLeafId.current = reset(foldToolMessages(page.items));
+            setOlderCursor(page.next_cursor);
+        } catch (error) {
+            // A chat started offline only exists in the outbox until it's flushed
+            if (isNotFound(error) && getQueuedMessages().some((e) => e.sessionId === currentSessionId)) return;
+            console.error("History fetch error:", error);
+            setHistoryError(toAppError(error));
+        } finally {
+            if (request === historyRequest.current) setIsLoadingHistory(false);
+        }
+    }, [currentSessionId, reset]);
+
+    useEffect(() => {
+        if (currentSessionId) loadHistory();
+    }, [loadHistory, currentSessionId, historyReload]);
+
+    // Scrolled to the top: fetch the previous page and graft it above the thread
+    const loadOlder = useCallback(async () => {
+        if (!olderCursor || isLoadingOlder) return;
+        const request = historyRequest.current;
+        setIsLoadingOlder(true);
+        try {
+            const page = await fetchHistory(currentSessionId, { cursor: olderCursor });
+            if (request !== historyRequest.current) return; // Session changed meanwhile
+            prepend(foldToolMessages(page.items));
+            setOlderCursor(page.next_cursor);
+        } catch (error) {
+            toast.error("Couldn't load earlier messages", { description: errorMessage(error) });
+        } finally {
+            setIsLoadingOlder(false);
+        }
+    }, [currentSessionId, olderCursor, isLoadingOlder, prepend]);
+
+    // Tool steps are shown on the AI turn that follows them, so they get no row
+    const rows = useMemo(
+        () => messages.flatMap((msg, index) => (msg.role === "tool" ? [] : [{ msg, index }])),
+        [messages],
+    );
+
+    // Search hit: the first message containing the query gets highlighted and scrolled to
+    const highlightedId = useMemo(() => {
+        const q = highlightQuery?.trim().toLowerCase();
+        if (!q) return null;
+        return messages.find((m) => m.role !== "tool" && m.content.toLowerCase().includes(q))?.id ?? null;
+    }, [messages, highlightQuery]);
+
+    const highlightedRow = highlightedId && !isLoading ? rows.findIndex((r) => r.msg.id === highlightedId) : null;
+
+    // The hit may sit on an older page: page back until it loads. Each cursor is
+    // tried once, so a failed page doesn't turn into a retry loop.
+    const highlightPagedCursor = useRef<string | null>(null);
+    useEffect(() => {
+        if (!highlightQuery?.trim() || highlightedId || isLoading || isLoadingOlder) return;
+        if (!olderCursor || highlightPagedCursor.current === olderCursor) return;
+        highlightPagedCursor.current = olderCursor;
+        loadOlder();
+    }, [highlightQuery, highlightedId, isLoading, isLoadingOlder, olderCursor, loadOlder]);
+
+    /**
+     * Fetches every history page above the loaded thread and grafts it on, so
+     * a history sent to the backend starts at the real first message. Returns
+     * those messages, oldest first (empty when everything is loaded already).
+     */
+    const loadEarlierHistory = async (sessionId: string): Promise<HistoryMessage[]> => {
+        const request = historyRequest.current;
+        const pages: HistoryMessage[][] = [];
+        let cursor = olderCursor;
+        setIsLoadingOlder(true); // Keeps loadOlder from fetching the same pages
+        try {
+            while (cursor) {
+                const page = await fetchHistory(sessionId, { cursor });
+                pages.unshift(page.items);
+                cursor = page.next_cursor;
+            }
+        } finally {
+            setIsLoadingOlder(false);
+        }
+        const earlier = pages.flat();
+        if (request === historyRequest.current && earlier.length > 0) {
+            prepend(foldToolMessages(earlier));
+            setOlderCursor(null);
+        }
+        return earlier;
+    };
+
+    /**
+     * Streams the agent's reply to the human message `turn` (node `humanId`).
+     * `contextId` is the message the human turn follows; if the backend isn't
+     * already at that point (regenerate, edit, switched branch) the whole
+     * conversation up to it is sent along — including pages not loaded yet,
+     * since the backend replaces its stored history with it. Resolves with the
+     * error if the run failed, null once the agent has answered or the user
+     * stopped it.
+     */
+    const runAgent = async (sessionId: string, humanId: string, turn: Message, contextId: string | null): Promise<unknown> => {
+        const branchPath = contextId === syncedLeafId.current ? null : unfoldToolMessages(pathTo(contextId));
+
+        const controller = new AbortController();
+        activeRuns.current.set(sessionId, controller);
+        updateLiveRun(sessionId, { parentId: humanId, text: "", toolSteps: [], approval: null, isReconnecting: false });
+        let accumulatedText = "";
+        let toolSteps: ToolStep[] = [];
+        let failure: unknown = null;
+        let protocolError: Error | null = null; // The backend sent something the run can't go on from
+        // The opening exchange names the session (later edits of it don't)
+        const isFirstReply = contextId === null && !messages.some((m) => m.role === "ai");
+        // After a switch the reply is only in the backend: the tree shows another session, or was
+        // reloaded for this one on the way back (humanId is gone then, so the history is fetched again)
+        const treeVersion = historyRequest.current;
+        const isViewed = () => viewedSessionId.current === sessionId && historyRequest.current === treeVersion;
+        const showStoredReply = () => {
+            if (viewedSessionId.current === sessionId && !isViewed()) setHistoryReload((n) => n + 1);
+        };
+
+        // Reconnects replay from the last event id; numbered events seen already are skipped
+        const seenEventIds = new Set<string>();
+        const handleEvent: AgentEventHandler = (data, eventId) => {
+            if (eventId) {
+                if (seenEventIds.has(eventId)) return;
+                seenEventIds.add(eventId);
+            }
+            if (data.type === "approval_request") {
+                if (!data.tool_call_id) {
+                    protocolError = new Error(MISSING_TOOL_CALL_ID);
+                    controller.abort();
+                    cancelRun(sessionId).catch((error) => console.warn("Cancel request failed", error));
+                    return;
+                }
+                updateLiveRun(sessionId, {
+                    approval: {
+                        toolCallId: data.tool_call_id,
+                        name: data.name ?? "tool",
+                        args: data.args ?? {},
+                        reason: data.content || undefined,
+                    },
+                });
+                return;
+            }
+            // The run moved on (decided here or elsewhere) — the approval prompt is stale
+            if (liveRunsRef.current[sessionId]?.approval) updateLiveRun(sessionId, { approval: null });
+            if (data.type === "tool") {
+                toolSteps = applyToolEvent(toolSteps, data);
+                updateLiveRun(sessionId, { toolSteps });
+            } else if (data.type === "text" || data.type === "delta") {
+                accumulatedText = data.type === "delta" ? accumulatedText + data.content : data.content;
+                if (toolSteps.some((s) => s.status === "running")) {
+                    toolSteps = finishToolSteps(toolSteps); // Answer started — tools are done
+                    updateLiveRun(sessionId, { toolSteps });
+                }
+                updateLiveRun(sessionId, { text: accumulatedText }, true); // At most one render per frame
+            }
+        };
+
+        try {
+            let interrupted = false;
+            const history = branchPath ? [...await loadEarlierHistory(sessionId), ...branchPath] : undefined;
+            try {
+                await streamChat({
+                    message: turn.content,
+                    sessionId,
+                    history,
+                    attachments: turn.attachments,
+                    settings: readAgentSettings(sessionId),
+                }, handleEvent, controller.signal);
+            } catch (error) {
+                if (!(error instanceof StreamInterruptedError)) throw error;
+                updateLiveRun(sessionId, { isReconnecting: true });
+                const outcome = await resumeStream(sessionId, turn, error, handleEvent, controller.signal)
+                    .finally(() => updateLiveRun(sessionId, { isReconnecting: false }));
+                if (outcome.status === "reconciled") {
+                    accumulatedText = outcome.message.content;
+                    toolSteps = outcome.message.toolSteps ?? [];
+                }
+                interrupted = outcome.status === "lost";
+            }
+            if (isViewed()) {
+                const aiId = append(humanId, {
+                    role: "ai",
+                    content: accumulatedText,
+                    ...(toolSteps.length > 0 && { toolSteps: finishToolSteps(toolSteps, interrupted ? "error" : "done") }),
+                    ...(interrupted && { interrupted: true }),
+                });
+                // What the backend stored of a lost answer is unknown — send the path along next time
+                syncedLeafId.current = interrupted ? undefined : aiId;
+            } else {
+                showStoredReply();
+            }
+            // Notify layout to re-fetch sessions now that this session is saved in DB
+            window.dispatchEvent(new CustomEvent('session-updated'));
+            if (isFirstReply && accumulatedText) autoTitle(sessionId, turn.content || turn.attachments?.[0]?.name || "");
+        } catch (error) {
+            if (isViewed()) syncedLeafId.current = undefined;
+            if (protocolError) {
+                console.error(protocolError);
+                failure = protocolError;
+            } else if (controller.signal.aborted) {
+                // Keep whatever arrived before the user hit Stop
+                if (isViewed() && (accumulatedText || toolSteps.length > 0)) {
+                    append(humanId, {
+                        role: "ai",
+                        content: accumulatedText,
+                        stopped: true,
+                        ...(toolSteps.length > 0 && { toolSteps: finishToolSteps(toolSteps, "error") }),
+                    });
+                } else {
+                    showStoredReply();
+                }
+                window.dispatchEvent(new CustomEvent('session-updated'));
+            } else {
+                console.error(error);
+                failure = error;
+            }
+        } finally {
+            // Only this session's run — one in another session carries on
+            activeRuns.current.delete(sessionId);
+            updateLiveRun(sessionId, null);
+        }
+        return failure;
+    };
+
+    /** Answers a turn the user just sent; if that fails an error bubble offers Retry. */
+    const answerTurn = async (sessionId: string, humanId: string, turn: Message, contextId: string | null) => {
+        setFailedRun(null);
+        const error = await runAgent(sessionId, humanId, turn, contextId);
+        if (error) setFailedRun({ sessionId, humanId, turn, contextId, error: toAppError(error) });
+    };
+
+    // Templates without variables go straight into the composer; others ask for the values first
+    const handlePickTemplate = (template: PromptTemplate) => {
+        if (templateVariables(template.body).length === 0) {
+            setInput(fillTemplate(template.body, {}));
+            return;
+        }
+        if (slashQuery(input) !== null) setInput(""); // Drop the "/command" typed to pick it
+        setFillingTemplate(template);
+    };
+
+    const handleAddFiles = async (files: File[]) => {
+        const errors: string[] = [];
+        const accepted = files.filter((file) => {
+            const error = validateAttachment(file);
+            if (error) errors.push(error);
+            return !error;
+        });
+        const room = MAX_ATTACHMENTS - attachments.length;
+        if (accepted.length > room) errors.push(`You can attach up to ${MAX_ATTACHMENTS} files per message`);
+
+        try {
+            const read = await Promise.all(accepted.slice(0, Math.max(room, 0)).map(readAttachment));
+            setAttachments((prev) => [...prev, ...read].slice(0, MAX_ATTACHMENTS));
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : "Failed to read file");
+        }
+        setAttachmentError(errors.length > 0 ? errors.join(" · ") : null);
+    };
+
+    const handleSendMessage = async () => {
+        if ((!input.trim() && attachments.length === 0) || isLoading || isArchived) return;
+        if (activeRuns.current.has(currentSessionId)) return; // Set before the run's first render
+
+        let targetId = currentSessionId;
+        if (!targetId) {
+            targetId = uuidv4();
+            // Settings picked on the welcome screen belong to the new session
+            saveAgentSettings(targetId, agentSettings);
+            saveAgentSettings("", {});
+            skipHistoryLoad.current = true; // Don't wipe messages on loadHistory trigger
+            setCurrentSessionId(targetId);
+            router.push(`/?session=${targetId}`);
+        }
+
+        const turn: Message = {
+            role: "human",
+            content: input.trim(),
+            ...(attachments.length > 0 && { attachments }),
+        };
+        setInput("");
+        setAttachments([]);
+        setAttachmentError(null);
+        // Offline, or earlier messages still waiting: queue behind them to keep the order
+        const hasQueued = outbox.some((e) => e.sessionId === targetId);
+        if (isOffline || hasQueued) {
+            // Sent in the background if the user has moved on by then, so the entry remembers it names the session
+            const opensSession = !hasQueued && (targetId !== currentSessionId || !messages.some((m) => m.role === "ai"));
+            enqueueMessage(targetId, turn.content, turn.attachments, opensSession);
+            return;
+        }
+        const parentId = messages.at(-1)?.id ?? null;
+        const humanId = append(parentId, turn);
+        await answerTurn(targetId, humanId, turn, parentId);
+    };
+
+    /**
+     * Sends a queued message of a session that isn't on screen. Nobody can see
+     * an approval card there, so tool approval requests are rejected and the
+     * run carries on without the tool; the send is cut off after
+     * BACKGROUND_RUN_TIMEOUT_MS so a stuck run can't hold up the outbox.
+     */
+    const sendInBackground = async (entry: OutboxEntry) => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(new Error("The agent took too long to answer")), BACKGROUND_RUN_TIMEOUT_MS);
+        const handleEvent: AgentEventHandler = (data) => {
+            if (data.type !== "approval_request") return;
+            if (!data.tool_call_id) {
+                controller.abort(new Error(MISSING_TOOL_CALL_ID));
+                return;
+            }
+            const reason = "Not approved: the message was sent from the offline queue while its chat wasn't open";
+            submitToolDecision(entry.sessionId, data.tool_call_id, { decision: "reject", reason })
+                .catch((error) => controller.abort(error));
+            toast.info(`Rejected a ${data.name ?? "tool"} call for a queued message`, {
+                description: "Open that chat and ask again to approve it.",
+            });
+        };
+        try {
+            await streamChat({
+                message: entry.content,
+                sessionId: entry.sessionId,
+                attachments: entry.attachments,
+                settings: readAgentSettings(entry.sessionId),
+            }, handleEvent, controller.signal);
+            window.dispatchEvent(new CustomEvent('session-updated'));
+            if (entry.opensSession) autoTitle(entry.sessionId, entry.content || entry.attachments?.[0]?.name || "");
+            return null;
+        } catch (error) {
+            if (!controller.signal.aborted) return error;
+            cancelRun(entry.sessionId).catch((e) => console.warn("Cancel request failed", e));
+            return controller.signal.reason;
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    /**
+     * Sends the oldest sendable outbox entry. The effect below calls it again
+     * for the next one, so every entry is matched against the session on
+     * screen when it is sent, not when the flush began. A failure holds back
+     * the rest of that session's queue until the user retries or discards it.
+     */
+    const flushOutbox = useEffectEvent(async () => {
+        if (isFlushing.current) return;
+        const queue = getQueuedMessages();
+        // A failed entry holds back its session's queue, and so does a run in progress there
+        const blocked = new Set([...queue.filter((e) => e.status === "failed").map((e) => e.sessionId), ...activeRuns.current.keys()]);
+        const entry = queue.find((e) => e.status === "pending" && !blocked.has(e.sessionId));
+        if (!entry) return;
+
+        isFlushing.current = true;
+        updateQueuedMessage(entry.id, { status: "sending" });
+        let error: unknown;
+        try {
+            if (entry.sessionId === currentSessionId) {
+                // Becomes a regular turn so the reply streams in like any other
+                const parentId = messages.at(-1)?.id ?? null;
+                const turn: Message = { role: "human", content: entry.content, attachments: entry.attachments };
+                const humanId = append(parentId, turn);
+                setFlushingId(entry.id);
+                error = await runAgent(entry.sessionId, humanId, turn, parentId);
+                setFlushingId(null);
+                if (error) remove(humanId);
+            } else {
+                error = await sendInBackground(entry);
+            }
+        } finally {
+            isFlushing.current = false;
+        }
+        if (error) {
+            updateQueuedMessage(entry.id, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+        } else {
+            removeQueuedMessage(entry.id);
+        }
+        setFlushRound((n) => n + 1);
+    });
+
+    const hasPendingOutbox = outbox.some((e) => e.status === "pending");
+    const runCount = Object.keys(liveRuns).length; // A run ending unblocks its session's queue
+    useEffect(() => {
+        if (canFlush && hasPendingOutbox && !isLoadingHistory) flushOutbox();
+    }, [canFlush, hasPendingOutbox, isLoadingHistory, runCount, flushRound]);
+
+    /** Topmost node of the branch a visible message belongs to (skips hidden tool steps above it). */
+    const branchHeadIndex = (index: number) => {
+        let i = index;
+        while (i > 0 && messages[i - 1].role === "tool") i--;
+        return i;
+    };
+
+    const handleRegenerate = (index: number) => {
+        if (isLoading || isArchived || activeRuns.current.has(currentSessionId)) return;
+        const human = messages[branchHeadIndex(index) - 1];
+        if (!human || human.role !== "human") return;
+        answerTurn(currentSessionId, human.id, human, human.parentId);
+    };
+
+    const startEdit = (msg: MessageNode) => {
+        setEditingId(msg.id);
+        setEditValue(msg.content);
+    };
+
+    const commitEdit = (msg: MessageNode) => {
+        const trimmed = editValue.trim();
+        setEditingId(null);
+        if (!trimmed || trimmed === msg.content || isLoading || isArchived || activeRuns.current.has(currentSessionId)) return;
+        // Fork: the edited turn becomes a sibling of the original (keeping its files)
+        const turn: Message = { role: "human", content: trimmed, attachments: msg.attachments };
+        const humanId = append(msg.parentId, turn);
+        answerTurn(currentSessionId, humanId, turn, msg.parentId);
+    };
+
+    const handleUnarchive = async () => {
+        if (listedSession) {
+            await setArchived([currentSessionId], false);
+            return;
+        }
+        try {
+            await updateSession(currentSessionId, { archived: false });
+            setSessionMeta((meta) => meta && { ...meta, archived: false });
+            window.dispatchEvent(new CustomEvent("session-updated")); // Lists it in the sidebar again
+        } catch (error) {
+            toast.error("Couldn't restore this chat", { description: errorMessage(error) });
+        }
+    };
+
+    const handleStop = () => {
+        const sessionId = currentSessionId;
+        const controller = activeRuns.current.get(sessionId);
+        if (!controller) return;
+        controller.abort();
+        // Best effort — the stream is already closed on our side either way
+        cancelRun(sessionId).catch((error) => console.warn("Cancel request failed", error));
+    };
+
+    /** Sends the user's approve/reject for the paused run; the stream picks up from there. */
+    const handleToolDecision = async (decision: ToolDecision) => {
+        const sessionId = currentSessionId;
+        const approval = pendingApproval;
+        if (!approval || !activeRuns.current.has(sessionId)) return;
+        try {
+            await submitToolDecision(sessionId, approval.toolCallId, decision);
+            if (liveRunsRef.current[sessionId]?.approval?.toolCallId === approval.toolCallId) {
+                updateLiveRun(sessionId, { approval: null });
+            }
+        } catch (error) {
+            toast.error("Couldn't send your decision", { description: errorMessage(error) });
+            throw error;
+        }
+    };
+
+    const lastSentMessage = messages.findLast((m) => m.role === "human")?.content;
+
+    // Overlay only for fresh chats (no messages yet), inline typing indicator when chatting
+    const showOverlay = isLoading && !streamingMessage && messages.length === 0;
+    const showTypingIndicator = isLoading && !streamingMessage && liveToolSteps.length === 0 && !pendingApproval && messages.length > 0;
+    // Shown under the human turn that went unanswered — for a failed regenerate that's above the old reply
+    const failedRunId = failedRun && !isLoading && failedRun.sessionId === currentSessionId ? failedRun.humanId : null;
+    const isMissing = historyError?.kind === "not_found";
+
+    const renderMessage = ({ msg, index: i }: { msg: MessageNode; index: number }) => {
+        const head = messages[branchHeadIndex(i)];
+        const canRegenerate = msg.role === "ai" && messages[branchHeadIndex(i) - 1]?.role === "human";
+        const isEditing = editingId === msg.id;
+        const row = (
+            <div className={`group flex items-start gap-2 ${msg.role === "human" ? "justify-end" : "justify-start"}`}>
+                {/* Bot avatar — hidden on mobile to save space */}
+                {msg.role === "ai" && (
+                    <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-blue-500/10 border border-blue-500/20 items-center justify-center mt-1">
+                        <Bot className="w-4 h-4 text-blue-500" />
+                    </div>
+                )}
+
+                <div className={`flex flex-col gap-1 max-w-[95%] sm:max-w-[80%] ${msg.role === "human" ? "items-end" : "items-start"} ${isEditing ? "w-full" : ""}`}>
+                    <Card className={`max-w-full p-3 md:p-3.5 ${isEditing ? "w-full" : ""} ${highlightedId === msg.id ? "ring-2 ring-amber-400/70" : ""} ${msg.role === "human"
+                        ? "bg-primary text-primary-foreground shadow-md rounded-2xl rounded-tr-sm"
+                        : "bg-card border-border/50 rounded-2xl rounded-tl-sm"
+                        }`}>
+                        {isEditing ? (
+                            /* ── Inline edit (forks the conversation on save) ── */
+                            <div className="flex flex-col gap-2">
+                                <textarea
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); commitEdit(msg); }
+                                        if (e.key === "Escape") setEditingId(null);
+                                    }}
+                                    autoFocus
+                                    rows={3}
+                                    className="w-full resize-y rounded-md bg-background/10 p-2 text-sm outline-none ring-1 ring-primary-foreground/30 focus:ring-primary-foreground/60"
+                                />
+                                <div className="flex justify-end gap-2">
+                                    <Button size="xs" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+                                    <Button size="xs" variant="secondary" onClick={() => commitEdit(msg)} disabled={!editValue.trim()}>
+                                        Save &amp; send
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : (
+                            <MessageBody message={msg} />
+                        )}
+                        {msg.stopped && (
+                            <div className="flex items-center gap-1.5 mt-2 text-[11px] italic text-muted-foreground">
+                                <CircleStop className="w-3 h-3" />
+                                Stopped
+                            </div>
+                        )}
+                        {msg.interrupted && (
+                            <div className="flex items-center gap-1.5 mt-2 text-[11px] italic text-muted-foreground">
+                                <WifiOff className="w-3 h-3" />
+                                Interrupted — the connection dropped before the answer finished
+                            </div>
+                        )}
+                    </Card>
+
+                    {/* Message actions — version switcher always, edit/regenerate on hover */}
+                    {!isEditing && (
+                        <div className="flex items-center gap-1 px-1">
+                            <BranchSwitcher
+                                info={siblingInfo(head.id)}
+                                disabled={isLoading}
+                                onSwitch={(direction) => switchSibling(head.id, direction)}
+                            />
+                            <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                                {msg.role === "human" && (
+                                    <button
+                                        onClick={() => startEdit(msg)}
+                                        disabled={isLoading || isOffline || isArchived}
+                                        className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+                                        title="Edit"
+                                    >
+                                        <Pencil className="w-3 h-3" />
+                                    </button>
+                                )}
+                                {canRegenerate && (
+                                    <button
+                                        onClick={() => handleRegenerate(i)}
+                                        disabled={isLoading || isOffline || isArchived}
+                                        className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40"
+                                        title="Regenerate"
+                                    >
+                                        <RefreshCw className="w-3 h-3" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* User avatar — hidden on mobile */}
+                {msg.role === "human" && (
+                    <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-primary/20 border border-primary/30 items-center justify-center mt-1">
+                        <User className="w-4 h-4 text-primary-foreground opacity-80" />
+                    </div>
+                )}
+            </div>
+        );
+        if (msg.id !== failedRunId || !failedRun) return row;
+        return (
+            <div className="space-y-4">
+                {row}
+                {/* ── Failed send ── */}
+                <div className="flex items-start gap-2 justify-start">
+                    <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-red-500/10 border border-red-500/20 items-center justify-center mt-1">
+                        <AlertCircle className="w-4 h-4 text-red-400" />
+                    </div>
+                    <Card className="max-w-[95%] sm:max-w-[80%] p-3 md:p-3.5 gap-2 bg-red-500/5 border-red-500/30 rounded-2xl rounded-tl-sm">
+                        <div className="text-sm">
+                            <p className="font-medium text-red-400">{failedRun.error.title}</p>
+                            <p className="text-muted-foreground">{failedRun.error.message}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Button
+                                size="xs"
+                                variant="outline"
+                                onClick={() => answerTurn(failedRun.sessionId, failedRun.humanId, failedRun.turn, failedRun.contextId)}
+                                disabled={isOffline || isArchived}
+                            >
+                                <RotateCw /> Retry
+                            </Button>
+                            <Button size="xs" variant="ghost" onClick={() => setFailedRun(null)}>
+                                <X /> Dismiss
+                            </Button>
+                        </div>
+                    </Card>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-full max-w-4xl mx-auto w-full px-3 py-3 md:px-4 md:py-4 relative overflow-hidden">
+
+            {/* ── Header: session title + agent settings ── */}
+            {!isMissing && (
+                <div className="flex items-center gap-2 pb-2 mb-2 border-b border-border">
+                    <h2 className="flex-1 min-w-0 truncate text-sm font-medium text-muted-foreground">
+                        {currentSession?.title ?? (currentSessionId ? "" : "New chat")}
+                    </h2>
+                    <AgentSettingsSummary settings={agentSettings} onClick={() => setSettingsOpen(true)} />
+                </div>
+            )}
+            <AgentSettingsSheet
+                open={settingsOpen}
+                onOpenChange={setSettingsOpen}
+                settings={agentSettings}
+                onChange={setAgentSettings}
+                disabled={isArchived}
+            />
+
+            {/* ── Full-screen loading overlay ── */}
+            <AnimatePresence>
+                {showOverlay && (
+                    <motion.div
+                        key="loading-overlay"
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="absolute inset-0 z-50 flex flex-col items-center justify-center backdrop-blur-sm bg-background/60 rounded-lg"
+                    >
+                        {/* Pulsing ring */}
+                        <div className="relative flex items-center justify-center mb-5">
+                            <span className="absolute inline-flex h-16 w-16 rounded-full bg-primary/20 animate-ping" />
+                            <div className="relative flex items-center justify-center w-14 h-14 rounded-full bg-primary/10 border border-primary/30 shadow-lg shadow-primary/10">
+                                <Loader2 className="w-6 h-6 text-primary animate-spin" />
+                            </div>
+                        </div>
+
+                        {/* Label */}
+                        <motion.p
+                            initial={{ opacity: 0, y: 6 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: 0.1 }}
+                            className="text-sm font-medium text-muted-foreground tracking-wide"
+                        >
+                            Agent is thinking
+                            <motion.span
+                                animate={{ opacity: [0, 1, 0] }}
+                                transition={{ repeat: Infinity, duration: 1.2, ease: "easeInOut" }}
+                            >…</motion.span>
+                        </motion.p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* ── History load failure (other than a missing session) ── */}
+            {historyError && !isMissing && (
+                <Alert variant="destructive" className="mb-3">
+                    <AlertCircle />
+                    <AlertTitle>{historyError.title}</AlertTitle>
+                    <AlertDescription>
+                        <p>Couldn&apos;t load this conversation: {historyError.message}</p>
+                        {historyError.retryable && (
+                            <Button size="xs" variant="outline" onClick={loadHistory} disabled={isLoading}>
+                                <RotateCw /> Retry
+                            </Button>
+                        )}
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            {/* ── Main content ── */}
+            <AnimatePresence mode="wait">
+                {!currentSessionId ? (
+                    <motion.div
+                        key="welcome"
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        className="flex-1 min-h-0 flex flex-col items-center justify-center text-center space-y-4 md:space-y-6 px-4"
+                    >
+                        <div className="p-4 bg-primary/10 rounded-full">
+                            <Sparkles className="w-12 h-12 text-primary" />
+                        </div>
+                        <TemplateCards
+                            templates={templates}
+                            onPick={handlePickTemplate}
+                            onManage={() => setTemplatesOpen(true)}
+                        />
+                    </motion.div>
+                ) : isMissing ? (
+                    <motion.div
+                        key="not-found"
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0 }}
+                        className="flex-1 min-h-0 flex flex-col items-center justify-center text-center space-y-4 px-4"
+                    >
+                        <div className="p-4 bg-muted/30 rounded-full">
+                            <MessageSquareOff className="w-10 h-10 text-muted-foreground" />
+                        </div>
+                        <h1 className="text-xl md:text-2xl font-semibold tracking-tight">Conversation not found</h1>
+                        <p className="text-muted-foreground max-w-sm text-sm">
+                            It may have been deleted, or the link is wrong.
+                        </p>
+                        <Button onClick={() => router.push("/")}>
+                            <Sparkles /> Start a new chat
+                        </Button>
+                    </motion.div>
+                ) : (
+                    <MessageList
+                        key={currentSessionId}
+                        items={rows}
+                        getKey={(row) => row.msg.id}
+                        renderItem={renderMessage}
+                        hasOlder={!!olderCursor}
+                        isLoadingOlder={isLoadingOlder}
+                        onLoadOlder={loadOlder}
+                        focusIndex={highlightedRow}
+                        footer={<>
+                            {/* ── Typing indicator (in-chat loader) ── */}
+                            <AnimatePresence>
+                                {showTypingIndicator && (
+                                    <motion.div
+                                        key="typing"
+                                        initial={{ opacity: 0, y: 8 }}
+                                        animate={{ opacity: 1, y: 0 }}
+                                        exit={{ opacity: 0, y: 8 }}
+                                        transition={{ duration: 0.2 }}
+                                        className="flex items-end gap-2 justify-start"
+                                    >
+                                        <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-blue-500/10 border border-blue-500/20 items-center justify-center">
+                                            <Bot className="w-4 h-4 text-blue-500" />
+                                        </div>
+                                        <Card className="p-3 md:p-3.5 bg-card border-border/50 rounded-2xl rounded-tl-sm">
+                                            <div className="flex items-center gap-1.5 h-4">
+                                                {[0, 1, 2].map((i) => (
+                                                    <motion.span
+                                                        key={i}
+                                                        className="w-2 h-2 rounded-full bg-muted-foreground/60"
+                                                        animate={{ y: [0, -5, 0] }}
+                                                        transition={{
+                                                            repeat: Infinity,
+                                                            duration: 0.7,
+                                                            delay: i * 0.15,
+                                                            ease: "easeInOut",
+                                                        }}
+                                                    />
+                                                ))}
+                                            </div>
+                                        </Card>
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+
+                            {/* ── Streaming buffer (live tool timeline, approval prompt, partial answer) ── */}
+                            {(streamingMessage || liveToolSteps.length > 0 || pendingApproval) && (
+                                <div className="flex items-start gap-2 justify-start">
+                                    <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-blue-500/10 border border-blue-500/30 items-center justify-center mt-1">
+                                        <Bot className="w-4 h-4 text-blue-500" />
+                                    </div>
+                                    <Card className="max-w-[95%] sm:max-w-[80%] p-3 md:p-3.5 bg-card border-blue-500/20 shadow-md rounded-2xl rounded-tl-sm">
+                                        <div className="text-sm leading-relaxed prose prose-sm dark:prose-invert max-w-none overflow-hidden">
+                                            <ToolTimeline steps={liveToolSteps} live />
+                                            {pendingApproval && (
+                                                <ToolApprovalCard
+                                                    key={pendingApproval.toolCallId}
+                                                    request={pendingApproval}
+                                                    onDecide={handleToolDecision}
+                                                    disabled={isOffline || isReconnecting}
+                                                />
+                                            )}
+                                            <MessageRenderer content={streamingMessage} streaming />
+
+                                        </div>
+                                        {isReconnecting && (
+                                            <div className="flex items-center gap-1.5 mt-2 text-[11px] italic text-amber-400">
+                                                <Loader2 className="w-3 h-3 animate-spin" />
+                                                Connection lost — reconnecting…
+                                            </div>
+                                        )}
+                                    </Card>
+                                </div>
+                            )}
+
+
+                            {/* ── Offline outbox ── */}
+                            {queued.map((entry) => (
+                                <PendingMessage
+                                    key={entry.id}
+                                    entry={entry}
+                                    isOffline={isOffline}
+                                    onRetry={(id) => updateQueuedMessage(id, { status: "pending" })}
+                                    onDiscard={removeQueuedMessage}
+                                />
+                            ))}
+                        </>}
+                    />
+                )}
+            </AnimatePresence>
+
+            {/* ── Input bar (read-only notice for archived chats) ── */}
+            {isMissing ? null : isArchived ? (
+                <div className="pt-4 border-t border-border mt-auto">
+                    <div className="flex items-center gap-3 rounded-lg bg-muted/20 ring-1 ring-border/30 px-4 py-3">
+                        <Archive className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                        <p className="flex-1 text-sm text-muted-foreground">This chat is archived and read-only.</p>
+                        <Button size="sm" variant="secondary" onClick={handleUnarchive} disabled={isOffline}>
+                            <ArchiveRestore /> Unarchive
+                        </Button>
+                    </div>
+                </div>
+            ) : (
+                <Composer
+                    value={input}
+                    onChange={setInput}
+                    onSubmit={handleSendMessage}
+                    onStop={handleStop}
+                    lastSentMessage={lastSentMessage}
+                    attachments={attachments}
+                    attachmentError={attachmentError}
+                    onAddFiles={handleAddFiles}
+                    onRemoveAttachment={(index) => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+                    isLoading={isLoading}
+                    isStreaming={isStreaming}
+                    isOffline={isOffline}
+                    templates={templates}
+                    onPickTemplate={handlePickTemplate}
+                    onManageTemplates={() => setTemplatesOpen(true)}
+                />
+            )}
+
+            <TemplateFormDialog
+                key={fillingTemplate?.id}
+                template={fillingTemplate}
+                onOpenChange={(open) => !open && setFillingTemplate(null)}
+                onInsert={(text) => {
+                    setInput(text);
+                    setFillingTemplate(null);
+                }}
+            />
+            <TemplateLibraryDialog
+                open={templatesOpen}
+                onOpenChange={setTemplatesOpen}
+                templates={templates}
+                onSave={upsertTemplate}
+                onDelete={removeTemplate}
+            />
+        </div>
+    );
+}
\ No newline at end of file
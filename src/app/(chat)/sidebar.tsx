@@ -0,0 +1,884 @@
+"use client";
+
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import Link from "next/link";
+import { useSearchParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Plus, Sparkles, Menu, X, Loader2, Search, TextSearch, Archive, ArchiveRestore, Trash2, ListChecks, ArrowLeft, Download, FileUp, AlertCircle, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
+import { SystemStatusContext, type SystemStatus } from "@/context/system-status-context";
+import { SessionsContext } from "@/context/sessions-context";
+import { listSessions, updateSession, deleteSession, importSession, generateTitle, createShare, revokeShare, type SearchHit, type Session, type SessionUpdate } from "@/services/api";
+import { titleMatches } from "@/services/search";
+import { downloadBlob, exportSessions, type ExportFormat } from "@/services/export";
+import { MAX_IMPORT_BYTES, parseTranscripts } from "@/services/import";
+import { formatBytes } from "@/services/attachments";
+import { sortByRecency } from "@/services/session-groups";
+import { titleFromMessage } from "@/services/titles";
+import { errorMessage, toAppError, type AppError } from "@/services/errors";
+import type { ServiceHealth } from "@/services/health";
+import { useSessionSearch } from "@/hooks/use-session-search";
+import { useSystemHealth } from "@/hooks/use-system-health";
+import { SearchPalette } from "@/components/search/search-palette";
+import { HighlightedText } from "@/components/search/highlighted-text";
+import { SessionList, FlatSessionList } from "@/components/sidebar/session-list";
+import { ExportMenu } from "@/components/sidebar/export-menu";
+import { SystemStatusBadge } from "@/components/sidebar/system-status-badge";
+
+const SESSION_PAGE_SIZE = 50;
+const UNDO_WINDOW_MS = 5_000; // Deletes are sent once the Undo toast has expired
+const TITLE_REVEAL_MS = 2_000;  // Generated titles animate in while listed for this long
+
+type RemovedSession = { session: Session; index: number };
+type SidebarView = "chats" | "archived";
+
+/** Puts sessions back at the positions they were taken out of. */
+function reinsert(list: Session[], removed: RemovedSession[]): Session[] {
+    const next = [...list];
+    for (const { session, index } of [...removed].sort((a, b) => a.index - b.index)) {
+        if (!next.some((s) => s.id === session.id)) next.splice(Math.min(index, next.length), 0, session);
+    }
+    return next;
+}
+
+function describeSessions(sessions: Session[]) {
+    return sessions.length === 1 ? `"${sessions[0].title}"` : `${sessions.length} chats`;
+}
+
+// ── Sidebar content ────────────────────────────────────────────────────────────
+function SidebarContent({
+    sessions,
+    currentSessionId,
+    startNewChat,
+    closeSidebar,
+    systemStatus,
+    systemFailures,
+    services,
+    isLoadingSessions,
+    loadError,
+    onRetryLoad,
+    isLoadingMore,
+    onLoadMore,
+    onRename,
+    onTogglePin,
+    onToggleArchive,
+    onExport,
+    onShare,
+    onRevokeShare,
+    autoTitledIds,
+    onMoveToFolder,
+    onDelete,
+    view,
+    onViewChange,
+    onImport,
+    selectedIds,
+    onSelectMode,
+    onToggleSelect,
+    onSelectAll,
+    onBulkArchive,
+    onBulkRestore,
+    onBulkExport,
+    onBulkDelete,
+    searchQuery,
+    onSearchChange,
+    contentHits,
+    isSearchingContent,
+    openPalette,
+}: {
+    sessions: Session[];
+    currentSessionId: string | null;
+    startNewChat: () => void;
+    closeSidebar: () => void;
+    systemStatus: SystemStatus;
+    systemFailures: string[];
+    services: ServiceHealth[];
+    isLoadingSessions: boolean;
+    loadError: AppError | null;
+    onRetryLoad: () => void;
+    isLoadingMore: boolean;
+    onLoadMore: () => void;
+    onRename: (id: string, newTitle: string) => Promise<void>;
+    onTogglePin: (id: string) => Promise<void>;
+    onToggleArchive: (id: string) => void;
+    onExport: (id: string, format: ExportFormat) => void;
+    onShare: (id: string) => void;
+    onRevokeShare: (id: string) => void;
+    autoTitledIds: ReadonlySet<string>;
+    onMoveToFolder: (id: string, folder: string | null) => Promise<void>;
+    onDelete: (id: string) => void;
+    view: SidebarView;
+    onViewChange: (view: SidebarView) => void;
+    onImport: (file: File) => void;
+    selectedIds: ReadonlySet<string> | null;
+    onSelectMode: (enabled: boolean) => void;
+    onToggleSelect: (id: string) => void;
+    onSelectAll: () => void;
+    onBulkArchive: () => void;
+    onBulkRestore: () => void;
+    onBulkExport: (format: ExportFormat) => void;
+    onBulkDelete: () => void;
+    searchQuery: string;
+    onSearchChange: (query: string) => void;
+    contentHits: SearchHit[];
+    isSearchingContent: boolean;
+    openPalette: () => void;
+}) {
+    const [scrollElement, setScrollElement] = useState<HTMLDivElement | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const rowActions = {
+        scrollElement,
+        onEndReached: onLoadMore,
+        currentSessionId,
+        isOffline: systemStatus === "offline",
+        onRename,
+        onTogglePin,
+        onToggleArchive,
+        onExport,
+        onShare,
+        onRevokeShare,
+        autoTitledIds,
+        onDelete,
+        selectedIds,
+        onToggleSelect,
+    };
+    const isArchiveView = view === "archived";
+
+    return (
+        <>
+            <div className="p-4 flex flex-col gap-4">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 px-2">
+                        <Sparkles className="w-5 h-5 text-primary" />
+                        <span className="font-bold tracking-tight text-lg">Agent Core</span>
+                    </div>
+                    {/* Close button — mobile only */}
+                    <button
+                        className="md:hidden p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                        onClick={closeSidebar}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <Button
+                    onClick={startNewChat}
+                    variant="outline"
+                    className="w-full justify-start gap-2 border-dashed"
+                >
+                    <Plus className="w-4 h-4" />
+                    New Chat
+                </Button>
+
+                {/* Search — filters titles instantly, message content after a short pause */}
+                <div className="relative">
+                    <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground pointer-events-none" />
+                    <input
+                        value={searchQuery}
+                        onChange={(e) => onSearchChange(e.target.value)}
+                        onKeyDown={(e) => e.key === "Escape" && onSearchChange("")}
+                        placeholder="Search chats"
+                        className="w-full h-8 rounded-md border border-border/60 bg-background/40 pl-8 pr-12 text-xs outline-none focus:ring-1 focus:ring-primary/40 placeholder:text-muted-foreground"
+                    />
+                    <button
+                        onClick={openPalette}
+                        className="absolute right-1.5 top-1/2 -translate-y-1/2 hidden md:block rounded border border-border/60 px-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+                        title="Open search palette"
+                    >
+                        ⌘K
+                    </button>
+                </div>
+            </div>
+
+            <Separator className="opacity-50" />
+
+            <div ref={setScrollElement} className="relative flex-1 overflow-y-auto p-3 sidebar-scroll">
+                <div className="flex items-center justify-between px-2 mb-3">
+                    {isArchiveView ? (
+                        <button
+                            onClick={() => onViewChange("chats")}
+                            className="flex items-center gap-1.5 text-[10px] uppercase font-bold text-muted-foreground tracking-widest hover:text-foreground transition-colors"
+                            title="Back to chats"
+                        >
+                            <ArrowLeft className="w-3 h-3" />
+                            Archived
+                        </button>
+                    ) : (
+                        <p className="text-[10px] uppercase font-bold text-muted-foreground tracking-widest">
+                            Chat History
+                        </p>
+                    )}
+                    <div className="flex items-center gap-2">
+                        {isLoadingSessions && (
+                            <Loader2 className="w-3 h-3 text-muted-foreground animate-spin" />
+                        )}
+                        {selectedIds && (
+                            <button
+                                onClick={onSelectAll}
+                                className="text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+                            >
+                                Select all
+                            </button>
+                        )}
+                        {sessions.length > 0 && systemStatus !== "offline" && (
+                            <button
+                                onClick={() => onSelectMode(!selectedIds)}
+                                className={`p-1 rounded transition-colors ${selectedIds ? "text-primary bg-primary/10" : "text-muted-foreground hover:text-foreground hover:bg-muted/50"}`}
+                                title={selectedIds ? "Done selecting" : "Select chats"}
+                            >
+                                <ListChecks className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {!isArchiveView && systemStatus !== "offline" && (
+                            <>
+                                <input
+                                    ref={importInputRef}
+                                    type="file"
+                                    accept=".json,application/json"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) onImport(file);
+                                        e.target.value = ""; // Allow picking the same file again
+                                    }}
+                                />
+                                <button
+                                    onClick={() => importInputRef.current?.click()}
+                                    className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                                    title="Import conversation (JSON)"
+                                >
+                                    <FileUp className="w-3.5 h-3.5" />
+                                </button>
+                            </>
+                        )}
+                        {!isArchiveView && (
+                            <button
+                                onClick={() => onViewChange("archived")}
+                                className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                                title="Archived chats"
+                            >
+                                <Archive className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {loadError && systemStatus !== "offline" && (
+                    <Alert variant="destructive" className="px-3 py-2">
+                        <AlertCircle />
+                        <AlertTitle className="text-xs">Couldn&apos;t load chats</AlertTitle>
+                        <AlertDescription className="text-[11px]">
+                            <p>{loadError.message}</p>
+                            {loadError.retryable && (
+                                <Button size="xs" variant="outline" onClick={onRetryLoad} disabled={isLoadingSessions}>
+                                    <RotateCw /> Retry
+                                </Button>
+                            )}
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {isLoadingSessions && sessions.length === 0 ? (
+                    // Shimmer skeleton rows
+                    <div className="space-y-1">
+                        {[80, 60, 72].map((w, i) => (
+                            <div
+                                key={i}
+                                className="flex items-center gap-3 p-3 rounded-lg"
+                            >
+                                <div className="w-4 h-4 rounded bg-muted-foreground/15 animate-pulse flex-shrink-0" />
+                                <div
+                                    className="h-3 rounded bg-muted-foreground/15 animate-pulse"
+                                    style={{ width: `${w}%` }}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                ) : sessions.length === 0 && loadError ? null : sessions.length === 0 ? (
+                    <p className="text-xs text-center text-muted-foreground py-10">
+                        {searchQuery ? "No matching titles" : isArchiveView ? "No archived chats" : "No sessions yet"}
+                    </p>
+                ) : searchQuery || isArchiveView ? (
+                    <FlatSessionList sessions={sessions} {...rowActions} />
+                ) : (
+                    <SessionList sessions={sessions} onMoveToFolder={onMoveToFolder} {...rowActions} />
+                )}
+                {isLoadingMore && (
+                    <div className="flex justify-center py-2">
+                        <Loader2 className="w-3.5 h-3.5 text-muted-foreground animate-spin" />
+                    </div>
+                )}
+
+                {/* ── Message content matches ── */}
+                {searchQuery && !isArchiveView && (contentHits.length > 0 || isSearchingContent) && (
+                    <div className="mt-4">
+                        <div className="flex items-center justify-between px-2 mb-2">
+                            <p className="text-[10px] uppercase font-bold text-muted-foreground tracking-widest">
+                                Messages
+                            </p>
+                            {isSearchingContent && (
+                                <Loader2 className="w-3 h-3 text-muted-foreground animate-spin" />
+                            )}
+                        </div>
+                        <div className="space-y-1">
+                            {contentHits.map((hit, i) => (
+                                <Link
+                                    key={`${hit.session_id}-${i}`}
+                                    href={`/?session=${hit.session_id}&highlight=${encodeURIComponent(searchQuery.trim())}`}
+                                    className="flex gap-2 px-2 py-2 rounded-lg text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-all"
+                                >
+                                    <TextSearch className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                    <span className="flex flex-col min-w-0">
+                                        <span className="truncate text-sm font-medium">{hit.title}</span>
+                                        <span className="text-[11px] line-clamp-2">
+                                            <HighlightedText text={hit.snippet} query={searchQuery} />
+                                        </span>
+                                    </span>
+                                </Link>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* ── Bulk actions (multi-select mode) ── */}
+            {selectedIds && (
+                <div className="flex items-center gap-1 px-4 py-2 border-t border-border">
+                    <span className="flex-1 text-xs text-muted-foreground">{selectedIds.size} selected</span>
+                    <ExportMenu onExport={onBulkExport}>
+                        <Button size="icon-xs" variant="ghost" disabled={selectedIds.size === 0} title="Export">
+                            <Download />
+                        </Button>
+                    </ExportMenu>
+                    {isArchiveView ? (
+                        <Button size="xs" variant="ghost" onClick={onBulkRestore} disabled={selectedIds.size === 0}>
+                            <ArchiveRestore /> Restore
+                        </Button>
+                    ) : (
+                        <Button size="xs" variant="ghost" onClick={onBulkArchive} disabled={selectedIds.size === 0}>
+                            <Archive /> Archive
+                        </Button>
+                    )}
+                    <Button size="xs" variant="ghost" onClick={onBulkDelete} disabled={selectedIds.size === 0} className="text-red-400 hover:text-red-400">
+                        <Trash2 /> Delete
+                    </Button>
+                </div>
+            )}
+
+            <SystemStatusBadge status={systemStatus} failures={systemFailures} services={services} />
+        </>
+    );
+}
+
+/**
+ * Sidebar renders:
+ *   - Desktop sidebar (md+)
+ *   - Mobile backdrop
+ *   - Mobile slide-in drawer
+ *   - Mobile top bar (hamburger + title) — injected as a flex sibling of <main>
+ *
+ * layout.tsx uses it like:
+ *   <div className="flex h-screen w-full overflow-hidden">
+ *     <Sidebar>{children}</Sidebar>
+ *   </div>
+ *
+ * We wrap children in <main> here so the mobile top bar shares the same state.
+ */
+export default function Sidebar({ children }: { children: React.ReactNode }) {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [sidebarOpen, setSidebarOpen] = useState(false);
+    const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+    const [sessionsError, setSessionsError] = useState<AppError | null>(null);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [paletteOpen, setPaletteOpen] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<ReadonlySet<string> | null>(null); // null = not selecting
+    const [view, setView] = useState<SidebarView>("chats");
+    const [archivedCursor, setArchivedCursor] = useState<string | null>(null);
+    const [isLoadingArchived, setIsLoadingArchived] = useState(false);
+    const activeSessions = useMemo(() => sessions.filter((s) => !s.archived), [sessions]);
+    const archivedSessions = useMemo(() => sortByRecency(sessions.filter((s) => s.archived)), [sessions]);
+    const { titleResults, contentHits, isSearchingContent } = useSessionSearch(searchQuery, activeSessions);
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const currentSessionId = searchParams.get("session");
+    const loadedExtraPages = useRef(false); // Infinite scroll went past the first page
+    const pendingDeletes = useRef(new Set<string>()); // Removed locally, DELETE not sent yet
+    const deleteFlushes = useRef(new Set<() => void>()); // Send a pending delete right away, for pagehide
+    const latestSessions = useRef(sessions); // For async work that must see renames made meanwhile
+    const [autoTitledIds, setAutoTitledIds] = useState<ReadonlySet<string>>(new Set()); // Titles to animate in
+
+    useEffect(() => {
+        latestSessions.current = sessions;
+    }, [sessions]);
+
+    const fetchSessions = useCallback(async () => {
+        setIsLoadingSessions(true);
+        try {
+            const page = await listSessions({ limit: SESSION_PAGE_SIZE });
+            const items = page.items.filter((s) => !pendingDeletes.current.has(s.id));
+            const keepLoaded = loadedExtraPages.current;
+            const fresh = new Set(items.map((s) => s.id));
+            // Refresh the first page but keep the archive and what infinite scroll already brought in
+            setSessions((prev) => [...items, ...prev.filter((s) => !fresh.has(s.id) && (keepLoaded || s.archived))]);
+            if (!keepLoaded) setNextCursor(page.next_cursor);
+            setSessionsError(null);
+        } catch (error) {
+            console.error("Failed to load sessions", error);
+            setSessionsError(toAppError(error));
+        } finally {
+            setIsLoadingSessions(false);
+        }
+    }, []);
+
+    const loadMoreSessions = useCallback(async () => {
+        if (!nextCursor || isLoadingMore) return;
+        setIsLoadingMore(true);
+        try {
+            const page = await listSessions({ cursor: nextCursor, limit: SESSION_PAGE_SIZE });
+            loadedExtraPages.current = true;
+            setSessions((prev) => {
+                const known = new Set(prev.map((s) => s.id));
+                return [...prev, ...page.items.filter((s) => !known.has(s.id) && !pendingDeletes.current.has(s.id))];
+            });
+            setNextCursor(page.next_cursor);
+        } catch (error) {
+            toast.error("Couldn't load more chats", { description: errorMessage(error) });
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [nextCursor, isLoadingMore]);
+
+    /** Archived sessions live in the same list (flagged) so row actions work on both views. */
+    const fetchArchived = useCallback(async (cursor: string | null = null) => {
+        setIsLoadingArchived(true);
+        try {
+            const page = await listSessions({ archived: true, cursor, limit: SESSION_PAGE_SIZE });
+            setSessions((prev) => {
+                const known = new Set(prev.map((s) => s.id));
+                const added = page.items.filter((s) => !known.has(s.id) && !pendingDeletes.current.has(s.id));
+                return [...prev, ...added.map((s) => ({ ...s, archived: true }))];
+            });
+            setArchivedCursor(page.next_cursor);
+        } catch (error) {
+            toast.error("Couldn't load archived chats", { description: errorMessage(error) });
+        } finally {
+            setIsLoadingArchived(false);
+        }
+    }, []);
+
+    const loadMoreArchived = useCallback(() => {
+        if (archivedCursor && !isLoadingArchived) fetchArchived(archivedCursor);
+    }, [archivedCursor, isLoadingArchived, fetchArchived]);
+
+    const changeView = (next: SidebarView) => {
+        setView(next);
+        setSelectedIds(null);
+        if (next === "archived") fetchArchived();
+    };
+
+    // ── Health-check polling ──────────────────────────────────────────────────
+    // Auto-refresh sessions when backend recovers from offline
+    const { status: systemStatus, services, failures: systemFailures } = useSystemHealth(fetchSessions);
+
+    useEffect(() => {
+        let isMounted = true;
+        const loadData = async () => {
+            if (isMounted) await fetchSessions();
+        };
+        loadData();
+        return () => { isMounted = false; };
+    }, [fetchSessions, currentSessionId]);
+
+    useEffect(() => {
+        const handleSessionSaved = () => fetchSessions();
+        window.addEventListener("session-updated", handleSessionSaved);
+        return () => window.removeEventListener("session-updated", handleSessionSaved);
+    }, [fetchSessions]);
+
+    // Leaving within the Undo window must not drop the delete — send it with keepalive
+    useEffect(() => {
+        const handlePageHide = () => deleteFlushes.current.forEach((flush) => flush());
+        window.addEventListener("pagehide", handlePageHide);
+        return () => window.removeEventListener("pagehide", handlePageHide);
+    }, []);
+
+    // Cmd/Ctrl+K opens the search palette from anywhere
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+                e.preventDefault();
+                setPaletteOpen((open) => !open);
+            }
+        };
+        document.addEventListener("keydown", handleKeyDown);
+        return () => document.removeEventListener("keydown", handleKeyDown);
+    }, []);
+
+    // Close sidebar on session navigation (mobile)
+    useEffect(() => {
+        setSidebarOpen(false);
+    }, [currentSessionId]);
+
+    const startNewChat = () => {
+        router.push("/");
+        setSidebarOpen(false);
+    };
+
+    const handleUpdate = useCallback(async (id: string, update: SessionUpdate) => {
+        const previous = sessions.find((s) => s.id === id);
+        if (!previous) return;
+        // Optimistic update
+        setSessions((prev) => prev.map((s) => s.id === id ? { ...s, ...update } : s));
+        try {
+            await updateSession(id, update);
+        } catch (error) {
+            // Roll back only the fields this update touched
+            const original = Object.fromEntries(Object.keys(update).map((key) => [key, previous[key as keyof SessionUpdate]]));
+            setSessions((prev) => prev.map((s) => s.id === id ? { ...s, ...original } : s));
+            toast.error(`Couldn't update "${previous.title}"`, { description: errorMessage(error) });
+        }
+    }, [sessions]);
+
+    const handleRename = useCallback(
+        (id: string, title: string) => handleUpdate(id, { title, title_edited: true }),
+        [handleUpdate],
+    );
+
+    /** Backend-generated title, or one derived from the first message if that fails. */
+    const autoTitle = useCallback(async (id: string, firstMessage: string) => {
+        if (latestSessions.current.find((s) => s.id === id)?.title_edited) return;
+        let title = "";
+        try {
+            title = (await generateTitle(id)).title.trim();
+        } catch (error) {
+            console.warn("Title generation failed, using the first message", error);
+        }
+        title ||= titleFromMessage(firstMessage);
+        // Checked again: the user may have renamed the chat while the title was generated
+        const session = latestSessions.current.find((s) => s.id === id);
+        if (!title || session?.title_edited || session?.title === title) return;
+        try {
+            await updateSession(id, { title });
+        } catch (error) {
+            console.error("Failed to save generated title", error);
+            return;
+        }
+        if (latestSessions.current.find((s) => s.id === id)?.title_edited) return;
+        setSessions((prev) => prev.map((s) => s.id === id && !s.title_edited ? { ...s, title } : s));
+        setAutoTitledIds((prev) => new Set(prev).add(id));
+        setTimeout(() => setAutoTitledIds((prev) => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+        }), TITLE_REVEAL_MS);
+    }, []);
+
+    const handleTogglePin = useCallback(
+        (id: string) => handleUpdate(id, { pinned: !sessions.find((s) => s.id === id)?.pinned }),
+        [handleUpdate, sessions],
+    );
+
+    const handleMoveToFolder = useCallback(async (id: string, folder: string | null) => {
+        if ((sessions.find((s) => s.id === id)?.folder ?? null) === folder) return;
+        await handleUpdate(id, { folder });
+    }, [handleUpdate, sessions]);
+
+    /** Takes sessions out of the list, returning them with their positions for rollback. */
+    const takeSessions = useCallback((ids: string[]) => {
+        const targets = new Set(ids);
+        const removed = sessions.flatMap((session, index) => targets.has(session.id) ? [{ session, index }] : []);
+        setSessions((prev) => prev.filter((s) => !targets.has(s.id)));
+        // If the active session goes away, go back to home
+        if (currentSessionId && targets.has(currentSessionId)) router.push("/");
+        return removed;
+    }, [sessions, currentSessionId, router]);
+
+    /** Optimistic removal; the DELETE requests only go out after the Undo window. */
+    const deleteSessions = useCallback((ids: string[]) => {
+        const removed = takeSessions(ids);
+        if (removed.length === 0) return;
+        const forget = () => removed.forEach(({ session }) => pendingDeletes.current.delete(session.id));
+        removed.forEach(({ session }) => pendingDeletes.current.add(session.id));
+
+        const commit = async () => {
+            deleteFlushes.current.delete(flush);
+            const results = await Promise.allSettled(removed.map(({ session }) => deleteSession(session.id)));
+            forget();
+            const failed = removed.filter((_, i) => results[i].status === "rejected");
+            if (failed.length === 0) return;
+            setSessions((prev) => reinsert(prev, failed));
+            const reason = results.find((r) => r.status === "rejected")?.reason;
+            toast.error(`Couldn't delete ${describeSessions(failed.map((r) => r.session))}`, { description: errorMessage(reason) });
+        };
+        const timer = setTimeout(commit, UNDO_WINDOW_MS);
+        const flush = () => {
+            clearTimeout(timer);
+            deleteFlushes.current.delete(flush);
+            forget();
+            removed.forEach(({ session }) => {
+                deleteSession(session.id, { keepalive: true }).catch((error) => console.warn("Delete on page hide failed", error));
+            });
+        };
+        deleteFlushes.current.add(flush);
+
+        toast(`Deleted ${describeSessions(removed.map((r) => r.session))}`, {
+            duration: UNDO_WINDOW_MS,
+            action: {
+                label: "Undo",
+                onClick: () => {
+                    clearTimeout(timer);
+                    deleteFlushes.current.delete(flush);
+                    forget();
+                    setSessions((prev) => reinsert(prev, removed));
+                },
+            },
+        });
+    }, [takeSessions]);
+
+    /** Optimistically flips `archived`, rolling back the sessions whose PATCH fails. Returns the ones that changed. */
+    const setArchived = useCallback(async (ids: string[], archived: boolean) => {
+        const targets = sessions.filter((s) => ids.includes(s.id) && !!s.archived !== archived);
+        if (targets.length === 0) return [];
+        const mark = (list: Session[], marked: Session[], value: boolean) => {
+            const markedIds = new Set(marked.map((s) => s.id));
+            return list.map((s) => markedIds.has(s.id) ? { ...s, archived: value } : s);
+        };
+
+        setSessions((prev) => mark(prev, targets, archived));
+        const results = await Promise.allSettled(targets.map((s) => updateSession(s.id, { archived })));
+        const failed = targets.filter((_, i) => results[i].status === "rejected");
+        if (failed.length > 0) {
+            setSessions((prev) => mark(prev, failed, !archived));
+            const reason = results.find((r) => r.status === "rejected")?.reason;
+            toast.error(`Couldn't ${archived ? "archive" : "restore"} ${describeSessions(failed)}`, { description: errorMessage(reason) });
+        }
+        return targets.filter((_, i) => results[i].status === "fulfilled");
+    }, [sessions]);
+
+    const archiveSessions = useCallback(async (ids: string[]) => {
+        const archived = await setArchived(ids, true);
+        if (archived.length === 0) return;
+        toast(`Archived ${describeSessions(archived)}`, {
+            action: { label: "Undo", onClick: () => setArchived(archived.map((s) => s.id), false) },
+        });
+    }, [setArchived]);
+
+    const restoreSessions = useCallback(async (ids: string[]) => {
+        const restored = await setArchived(ids, false);
+        if (restored.length > 0) toast(`Restored ${describeSessions(restored)}`);
+    }, [setArchived]);
+
+    const handleToggleArchive = useCallback((id: string) => {
+        if (sessions.find((s) => s.id === id)?.archived) restoreSessions([id]);
+        else archiveSessions([id]);
+    }, [sessions, archiveSessions, restoreSessions]);
+
+    const exportChats = useCallback((ids: string[], format: ExportFormat) => {
+        const targets = sessions.filter((s) => ids.includes(s.id));
+        if (targets.length === 0) return;
+        const exported = exportSessions(targets, format).then(({ blob, filename }) => {
+            downloadBlob(blob, filename);
+            return filename;
+        });
+        toast.promise(exported, {
+            loading: `Exporting ${describeSessions(targets)}…`,
+            success: (filename) => `Saved ${filename}`,
+            error: (error) => `Export failed: ${errorMessage(error)}`,
+        });
+    }, [sessions]);
+
+    const handleExport = useCallback((id: string, format: ExportFormat) => exportChats([id], format), [exportChats]);
+
+    const handleDelete = useCallback((id: string) => deleteSessions([id]), [deleteSessions]);
+
+    /** Copies the session's public link, creating the snapshot on first share. */
+    const handleShare = useCallback(async (id: string) => {
+        const session = sessions.find((s) => s.id === id);
+        if (!session) return;
+        let shareId = session.share_id;
+        if (!shareId) {
+            try {
+                shareId = (await createShare(id)).id;
+            } catch (error) {
+                toast.error(`Couldn't share "${session.title}"`, { description: errorMessage(error) });
+                return;
+            }
+            setSessions((prev) => prev.map((s) => s.id === id ? { ...s, share_id: shareId } : s));
+        }
+        const url = `${window.location.origin}/share/${shareId}`;
+        try {
+            await navigator.clipboard.writeText(url);
+            toast.success("Link copied", { description: url });
+        } catch {
+            toast("Read-only link", { description: url }); // Clipboard blocked — show it to copy by hand
+        }
+    }, [sessions]);
+
+    const handleRevokeShare = useCallback(async (id: string) => {
+        const session = sessions.find((s) => s.id === id);
+        if (!session?.share_id) return;
+        try {
+            await revokeShare(session.share_id);
+            setSessions((prev) => prev.map((s) => s.id === id ? { ...s, share_id: null } : s));
+            toast(`Stopped sharing "${session.title}"`);
+        } catch (error) {
+            toast.error(`Couldn't revoke the link to "${session.title}"`, { description: errorMessage(error) });
+        }
+    }, [sessions]);
+
+    /** Creates one session per conversation in an exported transcript / messages file. */
+    const handleImport = useCallback(async (file: File) => {
+        if (file.size > MAX_IMPORT_BYTES) {
+            toast.error(`${file.name} is larger than ${formatBytes(MAX_IMPORT_BYTES)}`);
+            return;
+        }
+        const created: Session[] = [];
+        try {
+            const conversations = parseTranscripts(await file.text(), file.name.replace(/\.json$/i, ""));
+            for (const conversation of conversations) created.push(await importSession(conversation));
+            toast.success(`Imported ${describeSessions(created)}`);
+        } catch (error) {
+            toast.error(`Couldn't import ${file.name}`, { description: errorMessage(error) });
+        }
+        if (created.length === 0) return;
+        setSessions((prev) => [...created, ...prev.filter((s) => !created.some((c) => c.id === s.id))]);
+        router.push(`/?session=${created[0].id}`);
+    }, [router]);
+
+    const toggleSelected = useCallback((id: string) => setSelectedIds((prev) => {
+        const next = new Set(prev);
+        if (!next.delete(id)) next.add(id);
+        return next;
+    }), []);
+
+    const runBulk = (action: (ids: string[]) => unknown) => {
+        if (!selectedIds || selectedIds.size === 0) return;
+        action([...selectedIds]);
+        setSelectedIds(null);
+    };
+
+    const navigateToSession = (sessionId: string, highlight?: string) => {
+        const query = highlight ? `&highlight=${encodeURIComponent(highlight)}` : "";
+        router.push(`/?session=${sessionId}${query}`);
+    };
+
+    const isArchiveView = view === "archived";
+    const visibleSessions = isArchiveView ? titleMatches(archivedSessions, searchQuery) : titleResults;
+
+    const sessionsContext = useMemo(() => ({
+        sessions,
+        setArchived: async (ids: string[], archived: boolean) => {
+            await (archived ? archiveSessions(ids) : restoreSessions(ids));
+        },
+        autoTitle,
+    }), [sessions, archiveSessions, restoreSessions, autoTitle]);
+
+    const sidebarProps = {
+        sessions: visibleSessions,
+        currentSessionId,
+        startNewChat,
+        systemStatus,
+        systemFailures,
+        services,
+        isLoadingSessions: isArchiveView ? isLoadingArchived && archivedSessions.length === 0 : isLoadingSessions,
+        loadError: isArchiveView ? null : sessionsError,
+        onRetryLoad: fetchSessions,
+        isLoadingMore: isArchiveView ? isLoadingArchived && archivedSessions.length > 0 : isLoadingMore,
+        onLoadMore: isArchiveView ? loadMoreArchived : loadMoreSessions,
+        onRename: handleRename,
+        onTogglePin: handleTogglePin,
+        onToggleArchive: handleToggleArchive,
+        onExport: handleExport,
+        onShare: handleShare,
+        onRevokeShare: handleRevokeShare,
+        autoTitledIds,
+        onMoveToFolder: handleMoveToFolder,
+        onDelete: handleDelete,
+        view,
+        onViewChange: changeView,
+        onImport: handleImport,
+        selectedIds,
+        onSelectMode: (enabled: boolean) => setSelectedIds(enabled ? new Set<string>() : null),
+        onToggleSelect: toggleSelected,
+        onSelectAll: () => setSelectedIds(new Set(visibleSessions.map((s) => s.id))),
+        onBulkArchive: () => runBulk(archiveSessions),
+        onBulkRestore: () => runBulk(restoreSessions),
+        onBulkExport: (format: ExportFormat) => runBulk((ids) => exportChats(ids, format)),
+        onBulkDelete: () => runBulk(deleteSessions),
+        searchQuery,
+        onSearchChange: setSearchQuery,
+        contentHits,
+        isSearchingContent,
+        openPalette: () => setPaletteOpen(true),
+    };
+
+    return (
+        <SystemStatusContext.Provider value={{ systemStatus, systemFailures, services }}>
+            <SessionsContext.Provider value={sessionsContext}>
+                <SearchPalette
+                    open={paletteOpen}
+                    onOpenChange={setPaletteOpen}
+                    sessions={activeSessions}
+                    onNavigate={navigateToSession}
+                />
+
+                {/* ── Desktop sidebar (md+) ── */}
+                <aside className="hidden md:flex w-72 border-r border-border bg-muted/20 flex-col">
+                    <SidebarContent
+                        {...sidebarProps}
+                        closeSidebar={() => setSidebarOpen(false)}
+                    />
+                </aside>
+
+                {/* ── Mobile backdrop ── */}
+                {sidebarOpen && (
+                    <div
+                        className="fixed inset-0 z-40 bg-black/60 backdrop-blur-sm md:hidden"
+                        onClick={() => setSidebarOpen(false)}
+                    />
+                )}
+
+                {/* ── Mobile slide-in drawer ── */}
+                <aside
+                    className={`fixed inset-y-0 left-0 z-50 w-72 bg-background border-r border-border flex flex-col
+                        transform transition-transform duration-300 ease-in-out md:hidden
+                        ${sidebarOpen ? "translate-x-0" : "-translate-x-full"}`}
+                >
+                    <SidebarContent
+                        {...sidebarProps}
+                        closeSidebar={() => setSidebarOpen(false)}
+                    />
+                </aside>
+
+                {/* ── Main content area (flex-1) ── */}
+                <main className="flex-1 min-h-0 flex flex-col relative bg-background">
+                    {/* Mobile top bar */}
+                    <div className="md:hidden flex items-center gap-3 px-4 py-3 border-b border-border bg-background/80 backdrop-blur-sm flex-shrink-0">
+                        <button
+                            onClick={() => setSidebarOpen(true)}
+                            className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                        >
+                            <Menu className="w-5 h-5" />
+                        </button>
+                        <div className="flex items-center gap-2">
+                            <Sparkles className="w-4 h-4 text-primary" />
+                            <span className="font-semibold text-sm tracking-tight">Agent Core</span>
+                        </div>
+                        {currentSessionId && (
+                            <button
+                                onClick={startNewChat}
+                                className="ml-auto p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                            >
+                                <Plus className="w-5 h-5" />
+                            </button>
+                        )}
+                    </div>
+
+                    {children}
+                </main>
+            </SessionsContext.Provider>
+        </SystemStatusContext.Provider>
+    );
+}
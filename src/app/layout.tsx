@@ -1,6 +1,6 @@
 import type { Metadata } from "next";
 import "./globals.css";
-import Sidebar from "./sidebar";
+import { Toaster } from "@/components/ui/sonner";
 
 export const metadata: Metadata = {
     title: "Agent Core",
@@ -11,9 +11,8 @@ export default function RootLayout({ children }: { children: React.ReactNode })
     return (
         <html lang="en" className="dark">
             <body className="bg-background text-foreground antialiased">
-                <div className="flex h-screen w-full overflow-hidden">
-                    <Sidebar>{children}</Sidebar>
-                </div>
+                {children}
+                <Toaster position="bottom-center" />
             </body>
         </html>
     );
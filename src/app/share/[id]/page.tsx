@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Bot, Eye, Link2Off, Loader2, Sparkles, User } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { MessageBody } from "@/components/chat/message-body";
+import { fetchShare, type SharedConversation } from "@/services/api";
+import { errorMessage, isNotFound } from "@/services/errors";
+import { foldToolMessages } from "@/services/tool-steps";
+
+type ShareState =
+    | { status: "loading" }
+    | { status: "ready"; conversation: SharedConversation }
+    | { status: "missing" }     // Never existed or revoked
+    | { status: "error"; message: string };
+
+/** Public, read-only view of a shared conversation snapshot. */
+export default function SharePage() {
+    const { id } = useParams<{ id: string }>();
+    const [state, setState] = useState<ShareState>({ status: "loading" });
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchShare(id)
+            .then((conversation) => !cancelled && setState({ status: "ready", conversation }))
+            .catch((error) => {
+                if (cancelled) return;
+                if (isNotFound(error)) setState({ status: "missing" });
+                else setState({ status: "error", message: errorMessage(error) });
+            });
+        return () => { cancelled = true; };
+    }, [id]);
+
+    const turns = useMemo(
+        () => (state.status === "ready" ? foldToolMessages(state.conversation.messages) : []),
+        [state],
+    );
+
+    return (
+        <div className="flex flex-col h-screen max-w-4xl mx-auto w-full px-3 py-3 md:px-4 md:py-4">
+            <header className="flex items-center gap-3 pb-3 mb-3 border-b border-border">
+                <Link href="/" className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
+                    <Sparkles className="w-4 h-4 text-primary" />
+                    <span className="font-semibold text-sm tracking-tight">Agent Core</span>
+                </Link>
+                {state.status === "ready" && (
+                    <>
+                        <h1 className="flex-1 min-w-0 truncate text-sm font-medium">{state.conversation.title}</h1>
+                        <Badge variant="secondary" className="gap-1">
+                            <Eye className="w-3 h-3" /> Read-only
+                        </Badge>
+                    </>
+                )}
+            </header>
+
+            {state.status === "loading" && (
+                <div className="flex-1 flex items-center justify-center">
+                    <Loader2 className="w-6 h-6 text-primary animate-spin" />
+                </div>
+            )}
+
+            {(state.status === "missing" || state.status === "error") && (
+                <div className="flex-1 flex flex-col items-center justify-center text-center gap-3 px-4">
+                    <div className="p-4 bg-muted/30 rounded-full">
+                        <Link2Off className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                    <h1 className="text-lg font-semibold">
+                        {state.status === "missing" ? "This link is no longer available" : "Couldn't load this conversation"}
+                    </h1>
+                    <p className="text-sm text-muted-foreground max-w-sm">
+                        {state.status === "missing"
+                            ? "The owner may have stopped sharing it."
+                            : state.message}
+                    </p>
+                </div>
+            )}
+
+            {state.status === "ready" && (
+                <ScrollArea className="flex-1 min-h-0 pr-4">
+                    <div className="space-y-4 pb-4">
+                        {state.conversation.created_at && (
+                            <p className="text-center text-[11px] text-muted-foreground">
+                                Snapshot from {new Date(state.conversation.created_at).toLocaleString()}
+                            </p>
+                        )}
+                        {turns.map((turn, i) => (
+                            <div key={i} className={`flex items-start gap-2 ${turn.role === "human" ? "justify-end" : "justify-start"}`}>
+                                {turn.role === "ai" && (
+                                    <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-blue-500/10 border border-blue-500/20 items-center justify-center mt-1">
+                                        <Bot className="w-4 h-4 text-blue-500" />
+                                    </div>
+                                )}
+                                <Card className={`max-w-[95%] sm:max-w-[80%] p-3 md:p-3.5 ${turn.role === "human"
+                                    ? "bg-primary text-primary-foreground shadow-md rounded-2xl rounded-tr-sm"
+                                    : "bg-card border-border/50 rounded-2xl rounded-tl-sm"
+                                    }`}>
+                                    <MessageBody message={turn} />
+                                </Card>
+                                {turn.role === "human" && (
+                                    <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-primary/20 border border-primary/30 items-center justify-center mt-1">
+                                        <User className="w-4 h-4 text-primary-foreground opacity-80" />
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </ScrollArea>
+            )}
+        </div>
+    );
+}
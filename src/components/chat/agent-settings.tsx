@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, RotateCcw, SlidersHorizontal, Square, SquareCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { fetchAgentOptions, type AgentOptions, type AgentSettings } from "@/services/api";
+import { errorMessage } from "@/services/errors";
+
+// Fetched once per page load; the drawer is opened far more often than the options change
+let optionsRequest: Promise<AgentOptions> | null = null;
+
+function loadOptions() {
+    optionsRequest ??= fetchAgentOptions().catch((error) => {
+        optionsRequest = null; // Try again next time the drawer opens
+        throw error;
+    });
+    return optionsRequest;
+}
+
+/** Short labels for the overrides in effect, e.g. ["gpt-4o", "temp 0.2", "3 tools"]. */
+export function summarizeSettings(settings: AgentSettings): string[] {
+    const parts: string[] = [];
+    if (settings.model) parts.push(settings.model);
+    if (settings.temperature !== undefined) parts.push(`temp ${settings.temperature}`);
+    if (settings.top_p !== undefined) parts.push(`top-p ${settings.top_p}`);
+    if (settings.max_tokens !== undefined) parts.push(`max ${settings.max_tokens} tokens`);
+    if (settings.system_prompt) parts.push("custom prompt");
+    if (settings.tools) parts.push(settings.tools.length === 1 ? "1 tool" : `${settings.tools.length} tools`);
+    return parts;
+}
+
+/** Settings button for the chat header, labelled with the active overrides. */
+export function AgentSettingsSummary({ settings, onClick }: { settings: AgentSettings; onClick: () => void }) {
+    const parts = summarizeSettings(settings);
+    return (
+        <button
+            onClick={onClick}
+            className="flex items-center gap-1.5 min-w-0 px-2 py-1 rounded-md text-xs text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+            title="Agent settings"
+        >
+            <SlidersHorizontal className="w-3.5 h-3.5 flex-shrink-0" />
+            {parts.length === 0 ? (
+                <span>Default settings</span>
+            ) : (
+                <span className="flex items-center gap-1 min-w-0 overflow-hidden">
+                    {parts.map((part) => (
+                        <Badge key={part} variant="secondary" className="font-normal">{part}</Badge>
+                    ))}
+                </span>
+            )}
+        </button>
+    );
+}
+
+function SliderField({
+    label,
+    value,
+    min,
+    max,
+    step,
+    fallback,
+    disabled,
+    onChange,
+}: {
+    label: string;
+    value: number | undefined;
+    min: number;
+    max: number;
+    step: number;
+    fallback: number; // Slider position while the backend default is used
+    disabled: boolean;
+    onChange: (value: number | undefined) => void;
+}) {
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-sm">
+                <label className="font-medium">{label}</label>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground tabular-nums">
+                    {value ?? "Default"}
+                    {value !== undefined && !disabled && (
+                        <button onClick={() => onChange(undefined)} className="p-0.5 rounded hover:text-foreground" title="Use the default">
+                            <RotateCcw className="w-3 h-3" />
+                        </button>
+                    )}
+                </span>
+            </div>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value ?? fallback}
+                disabled={disabled}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className={`w-full accent-primary ${value === undefined ? "opacity-50" : ""}`}
+            />
+        </div>
+    );
+}
+
+/**
+ * Drawer for the session's model, sampling parameters, system prompt and
+ * allowed tools. Changes apply right away and are used from the next message.
+ */
+export function AgentSettingsSheet({
+    open,
+    onOpenChange,
+    settings,
+    onChange,
+    disabled = false,
+}: {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    settings: AgentSettings;
+    onChange: (settings: AgentSettings) => void;
+    disabled?: boolean;
+}) {
+    const [options, setOptions] = useState<AgentOptions | null>(null);
+    const [optionsError, setOptionsError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open || options) return;
+        let cancelled = false;
+        loadOptions()
+            .then((loaded) => {
+                if (cancelled) return;
+                setOptions(loaded);
+                setOptionsError(null);
+            })
+            .catch((error) => !cancelled && setOptionsError(errorMessage(error)));
+        return () => { cancelled = true; };
+    }, [open, options]);
+
+    const update = (patch: Partial<AgentSettings>) => onChange({ ...settings, ...patch });
+    const allTools = options?.tools.map((t) => t.name) ?? [];
+    const isToolAllowed = (name: string) => !settings.tools || settings.tools.includes(name);
+
+    const toggleTool = (name: string) => {
+        const current = settings.tools ?? allTools;
+        const next = current.includes(name) ? current.filter((t) => t !== name) : [...current, name];
+        // Every tool allowed again is the same as no restriction
+        update({ tools: allTools.every((t) => next.includes(t)) ? undefined : next });
+    };
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent className="sm:max-w-md overflow-y-auto">
+                <SheetHeader>
+                    <SheetTitle>Agent settings</SheetTitle>
+                    <SheetDescription>
+                        {disabled ? "This chat is archived — restore it to change its settings." : "Apply to this chat from the next message on."}
+                    </SheetDescription>
+                </SheetHeader>
+
+                <div className="space-y-6 px-4">
+                    {/* ── Model ── */}
+                    <div className="space-y-1.5">
+                        <label htmlFor="agent-model" className="text-sm font-medium">Model</label>
+                        {options && options.models.length > 0 ? (
+                            <select
+                                id="agent-model"
+                                value={settings.model ?? ""}
+                                disabled={disabled}
+                                onChange={(e) => update({ model: e.target.value || undefined })}
+                                className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 focus-visible:border-ring disabled:opacity-50"
+                            >
+                                <option value="">Backend default</option>
+                                {options.models.map((m) => (
+                                    <option key={m.id} value={m.id}>{m.label ?? m.id}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <Input
+                                id="agent-model"
+                                value={settings.model ?? ""}
+                                placeholder="Backend default"
+                                disabled={disabled}
+                                onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+                            />
+                        )}
+                    </div>
+
+                    {/* ── Sampling ── */}
+                    <SliderField
+                        label="Temperature"
+                        value={settings.temperature}
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        fallback={1}
+                        disabled={disabled}
+                        onChange={(temperature) => update({ temperature })}
+                    />
+                    <SliderField
+                        label="Top P"
+                        value={settings.top_p}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        fallback={1}
+                        disabled={disabled}
+                        onChange={(top_p) => update({ top_p })}
+                    />
+                    <div className="space-y-1.5">
+                        <label htmlFor="agent-max-tokens" className="text-sm font-medium">Max output tokens</label>
+                        <Input
+                            id="agent-max-tokens"
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={settings.max_tokens ?? ""}
+                            placeholder="Backend default"
+                            disabled={disabled}
+                            onChange={(e) => {
+                                const value = parseInt(e.target.value, 10);
+                                update({ max_tokens: value > 0 ? value : undefined });
+                            }}
+                        />
+                    </div>
+
+                    {/* ── System prompt ── */}
+                    <div className="space-y-1.5">
+                        <label htmlFor="agent-system-prompt" className="text-sm font-medium">System prompt</label>
+                        <Textarea
+                            id="agent-system-prompt"
+                            rows={5}
+                            value={settings.system_prompt ?? ""}
+                            placeholder="Backend default prompt"
+                            disabled={disabled}
+                            onChange={(e) => update({ system_prompt: e.target.value || undefined })}
+                            className="text-sm"
+                        />
+                    </div>
+
+                    {/* ── Tools ── */}
+                    <div className="space-y-1.5">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium">Tools</span>
+                            {settings.tools && !disabled && (
+                                <Button size="xs" variant="ghost" onClick={() => update({ tools: undefined })}>Allow all</Button>
+                            )}
+                        </div>
+                        {optionsError ? (
+                            <p className="text-xs text-red-400">Couldn&apos;t load the tool list: {optionsError}</p>
+                        ) : !options ? (
+                            <Loader2 className="w-4 h-4 text-muted-foreground animate-spin" />
+                        ) : options.tools.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">The agent has no tools.</p>
+                        ) : (
+                            <ul className="space-y-0.5">
+                                {options.tools.map((tool) => {
+                                    const allowed = isToolAllowed(tool.name);
+                                    return (
+                                        <li key={tool.name}>
+                                            <button
+                                                onClick={() => toggleTool(tool.name)}
+                                                disabled={disabled}
+                                                aria-pressed={allowed}
+                                                className="flex items-start gap-2 w-full text-left px-2 py-1.5 rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+                                            >
+                                                {allowed
+                                                    ? <SquareCheck className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary" />
+                                                    : <Square className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />}
+                                                <span className="min-w-0">
+                                                    <span className="block text-sm font-mono">{tool.name}</span>
+                                                    {tool.description && (
+                                                        <span className="block text-xs text-muted-foreground">{tool.description}</span>
+                                                    )}
+                                                </span>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <SheetFooter>
+                    <Button variant="outline" onClick={() => onChange({})} disabled={disabled || Object.keys(settings).length === 0}>
+                        <RotateCcw /> Reset to defaults
+                    </Button>
+                </SheetFooter>
+            </SheetContent>
+        </Sheet>
+    );
+}
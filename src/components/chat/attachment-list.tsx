@@ -0,0 +1,65 @@
+"use client";
+
+import { FileText, X } from "lucide-react";
+import type { Attachment } from "@/services/api";
+import { attachmentSrc, formatBytes, isImageAttachment } from "@/services/attachments";
+
+/**
+ * Attachment previews: image thumbnails and file chips. With `onRemove` it
+ * renders the composer's pending list, otherwise the files of a sent message.
+ */
+export function AttachmentList({
+    attachments,
+    onRemove,
+    className = "",
+}: {
+    attachments: Attachment[];
+    onRemove?: (index: number) => void;
+    className?: string;
+}) {
+    if (attachments.length === 0) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-2 ${className}`}>
+            {attachments.map((attachment, i) => {
+                const src = attachmentSrc(attachment);
+                return (
+                    <div key={`${attachment.name}-${i}`} className="relative">
+                        {isImageAttachment(attachment) && src ? (
+                            <a href={src} target="_blank" rel="noreferrer" title={attachment.name}>
+                                {/* eslint-disable-next-line @next/next/no-img-element -- data URLs / backend URLs, not optimizable */}
+                                <img
+                                    src={src}
+                                    alt={attachment.name}
+                                    className="h-16 w-16 sm:h-20 sm:w-20 object-cover rounded-md border border-border/50"
+                                />
+                            </a>
+                        ) : (
+                            <a
+                                href={src}
+                                download={attachment.name}
+                                className="flex items-center gap-2 max-w-[220px] rounded-md border border-border/50 bg-background/20 px-2.5 py-1.5 text-xs no-underline"
+                                title={attachment.name}
+                            >
+                                <FileText className="w-4 h-4 flex-shrink-0 opacity-80" />
+                                <span className="flex flex-col min-w-0 text-left">
+                                    <span className="truncate font-medium">{attachment.name}</span>
+                                    <span className="text-[10px] opacity-70">{formatBytes(attachment.size)}</span>
+                                </span>
+                            </a>
+                        )}
+                        {onRemove && (
+                            <button
+                                onClick={() => onRemove(i)}
+                                className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-muted border border-border text-muted-foreground hover:text-foreground transition-colors"
+                                title="Remove"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useLayoutEffect, useRef, useState } from "react";
+import { Loader2, Paperclip, Send, Square, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { AttachmentList } from "@/components/chat/attachment-list";
+import { SlashCommandMenu } from "@/components/chat/slash-command-menu";
+import { ACCEPT_ATTRIBUTE } from "@/services/attachments";
+import { matchTemplates, slashQuery } from "@/services/templates";
+import type { Attachment, PromptTemplate } from "@/services/api";
+
+const MAX_HEIGHT_PX = 200;
+
+/**
+ * Auto-growing chat input.
+ *   Enter        send
+ *   Shift+Enter  newline
+ *   ↑            recall the last sent message (when the composer is empty)
+ *   Esc          clear
+ *   /command     pick a prompt template (↑/↓ to move, Enter or Tab to pick)
+ *
+ * Files can be attached with the paperclip, by drag-and-drop or by pasting.
+ * While offline, sending queues the message in the outbox instead.
+ */
+export function Composer({
+    value,
+    onChange,
+    onSubmit,
+    onStop,
+    lastSentMessage,
+    attachments,
+    attachmentError,
+    onAddFiles,
+    onRemoveAttachment,
+    isLoading,
+    isStreaming,
+    isOffline,
+    templates,
+    onPickTemplate,
+    onManageTemplates,
+}: {
+    value: string;
+    onChange: (value: string) => void;
+    onSubmit: () => void;
+    onStop: () => void;
+    lastSentMessage?: string;
+    attachments: Attachment[];
+    attachmentError?: string | null;
+    onAddFiles: (files: File[]) => void;
+    onRemoveAttachment: (index: number) => void;
+    isLoading: boolean;
+    isStreaming: boolean;
+    isOffline: boolean;
+    templates: PromptTemplate[];
+    onPickTemplate: (template: PromptTemplate) => void;
+    onManageTemplates: () => void;
+}) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [activeCommand, setActiveCommand] = useState(0);
+    const [dismissedCommand, setDismissedCommand] = useState<string | null>(null); // Input at which Esc closed the menu
+    const canSend = (!!value.trim() || attachments.length > 0) && !isLoading;
+
+    const query = value === dismissedCommand ? null : slashQuery(value);
+    const commandMatches = query === null ? [] : matchTemplates(templates, query);
+    const isMenuOpen = query !== null;
+    const active = Math.min(activeCommand, Math.max(commandMatches.length - 1, 0));
+
+    const handleChange = (next: string) => {
+        setActiveCommand(0);
+        onChange(next);
+    };
+
+    // Grow with content up to MAX_HEIGHT_PX, then scroll
+    useLayoutEffect(() => {
+        const el = textareaRef.current;
+        if (!el) return;
+        el.style.height = "auto";
+        el.style.height = `${Math.min(el.scrollHeight, MAX_HEIGHT_PX)}px`;
+    }, [value]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.nativeEvent.isComposing) return; // IME candidate selection
+        if (isMenuOpen) {
+            const count = commandMatches.length;
+            if (e.key === "ArrowDown" && count > 0) {
+                e.preventDefault();
+                setActiveCommand((active + 1) % count);
+                return;
+            } else if (e.key === "ArrowUp" && count > 0) {
+                e.preventDefault();
+                setActiveCommand((active - 1 + count) % count);
+                return;
+            } else if ((e.key === "Enter" || e.key === "Tab") && !e.shiftKey && commandMatches[active]) {
+                e.preventDefault();
+                onPickTemplate(commandMatches[active]);
+                return;
+            } else if (e.key === "Escape") {
+                e.preventDefault();
+                setDismissedCommand(value);
+                return;
+            }
+        }
+        if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            onSubmit();
+        } else if (e.key === "ArrowUp" && !value && lastSentMessage) {
+            e.preventDefault();
+            handleChange(lastSentMessage);
+        } else if (e.key === "Escape" && value) {
+            e.preventDefault();
+            handleChange("");
+        }
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const files = Array.from(e.clipboardData.files);
+        if (files.length === 0) return; // Plain text paste
+        e.preventDefault();
+        onAddFiles(files);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) onAddFiles(files);
+    };
+
+    return (
+        <div className="pt-4 border-t border-border mt-auto">
+            {attachmentError && (
+                <p className="text-xs text-red-400 mb-2 px-1">{attachmentError}</p>
+            )}
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+                onDrop={handleDrop}
+                className={`flex flex-wrap gap-2 relative group rounded-lg ring-1 transition-all duration-200 p-1
+                ${isDragging
+                    ? "ring-2 ring-primary/60 bg-primary/5"
+                    : isOffline
+                        ? "ring-red-500/40 bg-red-500/5 focus-within:ring-2 focus-within:ring-red-500/50"
+                        : "ring-border/30 focus-within:ring-2 focus-within:ring-primary/40 bg-muted/20"
+                }`}
+            >
+                {isMenuOpen && (
+                    <SlashCommandMenu
+                        templates={commandMatches}
+                        activeIndex={active}
+                        onHover={setActiveCommand}
+                        onPick={onPickTemplate}
+                        onManage={onManageTemplates}
+                    />
+                )}
+                <AttachmentList
+                    attachments={attachments}
+                    onRemove={onRemoveAttachment}
+                    className="basis-full px-2 pt-2"
+                />
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={ACCEPT_ATTRIBUTE}
+                    className="hidden"
+                    onChange={(e) => {
+                        onAddFiles(Array.from(e.target.files ?? []));
+                        e.target.value = ""; // Allow picking the same file again
+                    }}
+                />
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="h-9 w-9 rounded-md self-end mb-0.5 text-muted-foreground hover:text-foreground"
+                    title="Attach files"
+                >
+                    <Paperclip className="w-4 h-4" />
+                </Button>
+                <Textarea
+                    ref={textareaRef}
+                    rows={1}
+                    placeholder={isDragging
+                        ? "Drop files to attach"
+                        : isOffline ? "System offline — messages are queued and sent once it's back" : "Type your message, or / for templates... (Shift+Enter for a new line)"}
+                    value={value}
+                    onChange={(e) => handleChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onPaste={handlePaste}
+                    className={`flex-1 min-w-0 min-h-0 resize-none py-2.5 bg-transparent dark:bg-transparent border-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 text-sm leading-relaxed
+                        ${isOffline ? "placeholder:text-red-400/50" : ""}`}
+                />
+                {isStreaming ? (
+                    <Button
+                        onClick={onStop}
+                        variant="secondary"
+                        className="h-9 w-9 rounded-md transition-all shadow-md self-end mb-0.5"
+                        size="icon"
+                        title="Stop generating"
+                    >
+                        <Square className="w-3.5 h-3.5 fill-current" />
+                    </Button>
+                ) : (
+                    <Button
+                        onClick={onSubmit}
+                        disabled={!canSend}
+                        className="h-9 w-9 rounded-md transition-all shadow-md self-end mb-0.5"
+                        size="icon"
+                        title={isOffline ? "Queue message" : undefined}
+                    >
+                        {isLoading ? <Loader2 className="animate-spin w-4 h-4" /> : isOffline ? <WifiOff className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
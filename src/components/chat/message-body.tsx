@@ -0,0 +1,25 @@
+"use client";
+
+import { ToolTimeline } from "@/components/chat/tool-timeline";
+import { MessageRenderer } from "@/components/chat/message-renderer";
+import { AttachmentList } from "@/components/chat/attachment-list";
+import type { Message } from "@/hooks/use-conversation-tree";
+
+/** Contents of a finished message bubble: tool steps, then the answer or the human turn with its files. */
+export function MessageBody({ message }: { message: Message }) {
+    return (
+        <div className="text-sm leading-relaxed prose prose-sm dark:prose-invert max-w-none overflow-hidden">
+            {message.toolSteps && <ToolTimeline steps={message.toolSteps} />}
+            {message.role === "ai" ? (
+                <MessageRenderer content={message.content} />
+            ) : (
+                <>
+                    {message.attachments && (
+                        <AttachmentList attachments={message.attachments} className={message.content ? "mb-2" : ""} />
+                    )}
+                    {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+                </>
+            )}
+        </div>
+    );
+}
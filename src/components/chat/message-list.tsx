@@ -0,0 +1,134 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Loader2 } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+const ESTIMATED_ROW_PX = 120;
+const LOAD_OLDER_THRESHOLD_PX = 200; // Fetch the previous page when this close to the top
+const STICK_TO_BOTTOM_PX = 80;      // Follow new content while the user is this close to the bottom
+
+/**
+ * Windowed conversation view: only the rows near the viewport are mounted,
+ * so very long sessions stay cheap to render. Keeps following the bottom
+ * while the user is there, loads older messages when scrolled to the top
+ * and keeps the visible rows in place when they are prepended.
+ */
+export function MessageList<T>({
+    items,
+    getKey,
+    renderItem,
+    footer,
+    hasOlder,
+    isLoadingOlder,
+    onLoadOlder,
+    focusIndex,
+}: {
+    items: T[];
+    getKey: (item: T) => string;
+    renderItem: (item: T, index: number) => React.ReactNode;
+    /** Rendered below the rows (typing indicator, streaming reply). */
+    footer?: React.ReactNode;
+    hasOlder: boolean;
+    isLoadingOlder: boolean;
+    onLoadOlder: () => void;
+    /** Row to bring into view, e.g. a search hit. */
+    focusIndex?: number | null;
+}) {
+    const rootRef = useRef<HTMLDivElement>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const stickToBottom = useRef(true);
+    const distanceFromBottom = useRef(0);
+    const firstKey = useRef<string | null>(null);
+
+    const getViewport = useCallback(
+        () => rootRef.current?.querySelector<HTMLElement>("[data-radix-scroll-area-viewport]") ?? null,
+        [],
+    );
+
+    // eslint-disable-next-line react-hooks/incompatible-library -- React Compiler isn't enabled
+    const virtualizer = useVirtualizer({
+        count: items.length,
+        getScrollElement: getViewport,
+        estimateSize: () => ESTIMATED_ROW_PX,
+        getItemKey: (index) => getKey(items[index]),
+        overscan: 6,
+    });
+
+    // Track where the user is and page backwards near the top
+    useEffect(() => {
+        const viewport = getViewport();
+        if (!viewport) return;
+        const handleScroll = () => {
+            distanceFromBottom.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight;
+            stickToBottom.current = distanceFromBottom.current < STICK_TO_BOTTOM_PX;
+            if (viewport.scrollTop < LOAD_OLDER_THRESHOLD_PX && hasOlder && !isLoadingOlder) onLoadOlder();
+        };
+        viewport.addEventListener("scroll", handleScroll, { passive: true });
+        return () => viewport.removeEventListener("scroll", handleScroll);
+    }, [getViewport, hasOlder, isLoadingOlder, onLoadOlder]);
+
+    // Older rows were inserted above: keep the same distance from the bottom
+    useLayoutEffect(() => {
+        const viewport = getViewport();
+        const previousFirst = firstKey.current;
+        firstKey.current = items.length > 0 ? getKey(items[0]) : null;
+        if (!viewport || !previousFirst || firstKey.current === previousFirst) return;
+        if (!items.some((item) => getKey(item) === previousFirst)) return; // Replaced, not prepended
+        viewport.scrollTop = viewport.scrollHeight - viewport.clientHeight - distanceFromBottom.current;
+    }, [items, getKey, getViewport]);
+
+    // Follow growing content (new messages, streaming, late-measured rows)
+    useEffect(() => {
+        const viewport = getViewport();
+        const content = contentRef.current;
+        if (!viewport || !content) return;
+        const observer = new ResizeObserver(() => {
+            if (stickToBottom.current) viewport.scrollTop = viewport.scrollHeight;
+        });
+        observer.observe(content);
+        return () => observer.disconnect();
+    }, [getViewport]);
+
+    useEffect(() => {
+        if (focusIndex == null || focusIndex < 0) return;
+        stickToBottom.current = false;
+        virtualizer.scrollToIndex(focusIndex, { align: "center" });
+    }, [focusIndex, virtualizer]);
+
+    return (
+        <ScrollArea className="flex-1 min-h-0 pr-4" ref={rootRef}>
+            <div ref={contentRef} className="pb-4">
+                {hasOlder && (
+                    <div className="flex justify-center py-2">
+                        {isLoadingOlder ? (
+                            <Loader2 className="w-4 h-4 text-muted-foreground animate-spin" />
+                        ) : (
+                            <button
+                                onClick={onLoadOlder}
+                                className="text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+                            >
+                                Load earlier messages
+                            </button>
+                        )}
+                    </div>
+                )}
+                <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+                    {virtualizer.getVirtualItems().map((row) => (
+                        <div
+                            key={row.key}
+                            data-index={row.index}
+                            ref={virtualizer.measureElement}
+                            className="absolute top-0 left-0 w-full pb-4"
+                            style={{ transform: `translateY(${row.start}px)` }}
+                        >
+                            {renderItem(items[row.index], row.index)}
+                        </div>
+                    ))}
+                </div>
+                <div className="space-y-4">{footer}</div>
+            </div>
+        </ScrollArea>
+    );
+}
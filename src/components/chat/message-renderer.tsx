@@ -0,0 +1,212 @@
+"use client";
+
+import { memo, useEffect, useId, useMemo, useState, type ComponentProps } from "react";
+import ReactMarkdown, { type Components, type ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Code2, Copy, Download, Network } from "lucide-react";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+const remarkPlugins = [remarkGfm, remarkMath];
+const rehypePlugins: ComponentProps<typeof ReactMarkdown>["rehypePlugins"] = [
+    rehypeKatex,
+    [rehypeHighlight, { detect: false, plainText: ["mermaid"] }],
+];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    javascript: "js", js: "js", typescript: "ts", ts: "ts", tsx: "tsx", jsx: "jsx",
+    python: "py", py: "py", bash: "sh", sh: "sh", shell: "sh", json: "json",
+    yaml: "yml", yml: "yml", html: "html", css: "css", sql: "sql", go: "go",
+    rust: "rs", java: "java", markdown: "md", md: "md", mermaid: "mmd",
+};
+
+type HastNode = { type: string; value?: string; tagName?: string; properties?: Record<string, unknown>; children?: HastNode[] };
+
+function nodeText(node: HastNode | undefined): string {
+    if (!node) return "";
+    if (node.type === "text") return node.value ?? "";
+    return (node.children ?? []).map(nodeText).join("");
+}
+
+function codeLanguage(code: HastNode | undefined): string | null {
+    const className = code?.properties?.className;
+    const classes = Array.isArray(className) ? className.map(String) : [];
+    return classes.find((c) => c.startsWith("language-"))?.slice("language-".length) ?? null;
+}
+
+// ── Toolbar button (copy / download / toggle) ───────────────────────────────
+function ToolbarButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            title={title}
+            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+        >
+            {children}
+        </button>
+    );
+}
+
+function CopyButton({ text }: { text: string }) {
+    const [copied, setCopied] = useState(false);
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch (error) {
+            console.error("Copy failed", error);
+        }
+    };
+    return (
+        <ToolbarButton title={copied ? "Copied" : "Copy"} onClick={copy}>
+            {copied ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
+        </ToolbarButton>
+    );
+}
+
+function downloadText(text: string, language: string | null) {
+    const extension = (language && FILE_EXTENSIONS[language.toLowerCase()]) ?? "txt";
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `snippet.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// ── Mermaid diagram (lazy-loaded; falls back to source on parse errors) ─────
+function MermaidDiagram({ source }: { source: string }) {
+    const id = `mermaid-${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+    const [svg, setSvg] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [showSource, setShowSource] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const { default: mermaid } = await import("mermaid");
+                mermaid.initialize({ startOnLoad: false, theme: "dark", securityLevel: "strict" });
+                const { svg } = await mermaid.render(id, source);
+                if (!cancelled) { setSvg(svg); setError(null); }
+            } catch (e) {
+                if (!cancelled) setError(e instanceof Error ? e.message : "Invalid diagram");
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [id, source]);
+
+    const sourceView = showSource || error || !svg;
+
+    return (
+        <div className="not-prose my-3 rounded-lg border border-border/60 bg-muted/20 overflow-hidden">
+            <div className="flex items-center gap-1 px-3 py-1 border-b border-border/60 bg-muted/30">
+                <span className="text-[10px] uppercase tracking-widest text-muted-foreground flex-1">
+                    mermaid{error && " · failed to render"}
+                </span>
+                {svg && !error && (
+                    <ToolbarButton title={showSource ? "Show diagram" : "Show source"} onClick={() => setShowSource((v) => !v)}>
+                        {showSource ? <Network className="w-3 h-3" /> : <Code2 className="w-3 h-3" />}
+                    </ToolbarButton>
+                )}
+                <CopyButton text={source} />
+            </div>
+            {sourceView ? (
+                <pre className="m-0 p-3 text-xs overflow-x-auto"><code>{source}</code></pre>
+            ) : (
+                <div className="p-3 flex justify-center overflow-x-auto [&_svg]:max-w-full" dangerouslySetInnerHTML={{ __html: svg }} />
+            )}
+        </div>
+    );
+}
+
+// ── Fenced code block with language label, copy and download ─────────────────
+function CodeBlock({ node, children, renderDiagrams }: ComponentProps<"pre"> & ExtraProps & { renderDiagrams: boolean }) {
+    const code = (node as HastNode | undefined)?.children?.find((c) => c.tagName === "code");
+    const language = codeLanguage(code);
+    const text = nodeText(code).replace(/\n$/, "");
+
+    if (language === "mermaid" && renderDiagrams) return <MermaidDiagram source={text} />;
+
+    return (
+        <div className="not-prose my-3 rounded-lg border border-border/60 bg-[#0d1117] overflow-hidden">
+            <div className="flex items-center gap-1 px-3 py-1 border-b border-border/60 bg-muted/30">
+                <span className="text-[10px] uppercase tracking-widest text-muted-foreground flex-1">
+                    {language ?? "text"}
+                </span>
+                <CopyButton text={text} />
+                <ToolbarButton title="Download" onClick={() => downloadText(text, language)}>
+                    <Download className="w-3 h-3" />
+                </ToolbarButton>
+            </div>
+            <pre className="m-0 p-3 text-xs leading-relaxed overflow-x-auto">{children}</pre>
+        </div>
+    );
+}
+
+// Trailing block of a streaming message may hold a half-written diagram, so
+// it renders mermaid as plain code until the block is complete.
+const completeComponents: Components = { pre: (props) => <CodeBlock {...props} renderDiagrams /> };
+const partialComponents: Components = { pre: (props) => <CodeBlock {...props} renderDiagrams={false} /> };
+
+const MarkdownBlock = memo(function MarkdownBlock({ content, complete }: { content: string; complete: boolean }) {
+    return (
+        <ReactMarkdown
+            remarkPlugins={remarkPlugins}
+            rehypePlugins={rehypePlugins}
+            components={complete ? completeComponents : partialComponents}
+        >
+            {content}
+        </ReactMarkdown>
+    );
+});
+
+/**
+ * Splits markdown into top-level blocks at blank lines, never inside a
+ * fenced code block or a `$$` math block. Every block but the last is
+ * complete and won't change as more tokens arrive.
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let fence: string | null = null;
+    let inMath = false;
+
+    for (const line of markdown.split("\n")) {
+        const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+        if (marker && !inMath) {
+            if (fence === null) fence = marker;
+            else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+        } else if (fence === null && line.trim() === "$$") {
+            inMath = !inMath;
+        }
+        if (fence === null && !inMath && line.trim() === "" && current.length > 0) {
+            blocks.push(current.join("\n"));
+            current = [];
+            continue;
+        }
+        current.push(line);
+    }
+    if (current.length > 0) blocks.push(current.join("\n"));
+    return blocks;
+}
+
+/**
+ * Renders an AI message: GFM, KaTeX math, highlighted code blocks and
+ * mermaid diagrams. While `streaming`, completed blocks are memoized so each
+ * update only re-parses the trailing block.
+ */
+export function MessageRenderer({ content, streaming = false }: { content: string; streaming?: boolean }) {
+    const blocks = useMemo(() => streaming ? splitMarkdownBlocks(content) : [content], [content, streaming]);
+    return (
+        <>
+            {blocks.map((block, i) => (
+                <MarkdownBlock key={i} content={block} complete={!streaming || i < blocks.length - 1} />
+            ))}
+        </>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { AlertCircle, Clock, Loader2, RotateCw, User, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { MessageBody } from "@/components/chat/message-body";
+import type { OutboxEntry } from "@/services/outbox";
+
+/** Human bubble for a message still in the offline outbox, with retry/discard controls. */
+export function PendingMessage({
+    entry,
+    isOffline,
+    onRetry,
+    onDiscard,
+}: {
+    entry: OutboxEntry;
+    isOffline: boolean;
+    onRetry: (id: string) => void;
+    onDiscard: (id: string) => void;
+}) {
+    const isFailed = entry.status === "failed";
+
+    return (
+        <div className="flex items-start gap-2 justify-end">
+            <div className="flex flex-col gap-1 items-end max-w-[95%] sm:max-w-[80%]">
+                <Card className={`max-w-full p-3 md:p-3.5 rounded-2xl rounded-tr-sm shadow-none border-dashed ${isFailed
+                    ? "bg-red-500/5 border-red-500/40"
+                    : "bg-primary/60 text-primary-foreground border-primary-foreground/20"
+                    }`}>
+                    <MessageBody message={{ role: "human", content: entry.content, attachments: entry.attachments }} />
+                </Card>
+                <div className="flex items-center gap-1.5 px-1 text-[11px] text-muted-foreground">
+                    {entry.status === "sending" ? (
+                        <><Loader2 className="w-3 h-3 animate-spin" /> Sending…</>
+                    ) : isFailed ? (
+                        <span className="flex items-center gap-1 text-red-400" title={entry.error}>
+                            <AlertCircle className="w-3 h-3" /> Not sent{entry.error && `: ${entry.error}`}
+                        </span>
+                    ) : (
+                        <><Clock className="w-3 h-3" /> {isOffline ? "Queued — sends when the connection is back" : "Queued"}</>
+                    )}
+                    {isFailed && (
+                        <button
+                            onClick={() => onRetry(entry.id)}
+                            disabled={isOffline}
+                            className="p-1 rounded hover:bg-muted hover:text-foreground transition-colors disabled:opacity-40"
+                            title="Retry"
+                        >
+                            <RotateCw className="w-3 h-3" />
+                        </button>
+                    )}
+                    {entry.status !== "sending" && (
+                        <button
+                            onClick={() => onDiscard(entry.id)}
+                            className="p-1 rounded hover:bg-red-500/10 hover:text-red-400 transition-colors"
+                            title="Discard"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    )}
+                </div>
+            </div>
+            <div className="hidden sm:flex flex-shrink-0 w-7 h-7 rounded-full bg-primary/10 border border-dashed border-primary/30 items-center justify-center mt-1">
+                <User className="w-4 h-4 text-primary-foreground opacity-60" />
+            </div>
+        </div>
+    );
+}
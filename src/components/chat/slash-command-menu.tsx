@@ -0,0 +1,68 @@
+"use client";
+
+import { BookText, Settings2 } from "lucide-react";
+import type { PromptTemplate } from "@/services/api";
+
+/**
+ * Template picker shown above the composer while it holds a "/command".
+ * Keyboard navigation lives in the composer, which keeps the focus.
+ */
+export function SlashCommandMenu({
+    templates,
+    activeIndex,
+    onHover,
+    onPick,
+    onManage,
+}: {
+    templates: PromptTemplate[];
+    activeIndex: number;
+    onHover: (index: number) => void;
+    onPick: (template: PromptTemplate) => void;
+    onManage: () => void;
+}) {
+    return (
+        <div
+            role="listbox"
+            aria-label="Prompt templates"
+            className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-lg border border-border bg-popover text-popover-foreground shadow-lg overflow-hidden"
+        >
+            <div className="max-h-64 overflow-y-auto p-1 sidebar-scroll">
+                {templates.length === 0 ? (
+                    <p className="text-xs text-center text-muted-foreground py-4">No matching templates</p>
+                ) : (
+                    templates.map((template, i) => (
+                        <button
+                            key={template.id}
+                            role="option"
+                            aria-selected={i === activeIndex}
+                            // Keep the textarea focused so typing continues to filter
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => onPick(template)}
+                            onMouseMove={() => onHover(i)}
+                            className={`w-full flex items-start gap-3 px-3 py-2 rounded-md text-left text-sm transition-colors
+                                ${i === activeIndex ? "bg-accent text-accent-foreground" : "text-muted-foreground"}`}
+                        >
+                            <BookText className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span className="flex flex-col min-w-0">
+                                <span className="truncate">
+                                    <span className="font-mono font-medium text-foreground">/{template.command}</span>
+                                    <span className="ml-2">{template.title}</span>
+                                </span>
+                                {template.description && (
+                                    <span className="text-xs text-muted-foreground truncate">{template.description}</span>
+                                )}
+                            </span>
+                        </button>
+                    ))
+                )}
+            </div>
+            <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={onManage}
+                className="w-full flex items-center gap-2 px-4 py-2 border-t border-border text-xs text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+            >
+                <Settings2 className="w-3.5 h-3.5" /> Manage templates
+            </button>
+        </div>
+    );
+}
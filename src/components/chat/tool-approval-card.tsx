@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, Pencil, ShieldQuestion, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { ToolDecision } from "@/services/api";
+
+/** A tool call the agent is waiting on the user to allow. */
+export interface ToolApprovalRequest {
+    toolCallId: string;
+    name: string;
+    args: Record<string, unknown>;
+    reason?: string;
+}
+
+function parseArgs(text: string): Record<string, unknown> | null {
+    try {
+        const parsed: unknown = JSON.parse(text);
+        return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Inline prompt for a paused run: shows the tool and its arguments and lets
+ * the user approve, edit the arguments first, or reject the call. Remount
+ * (key) per tool call so an edit doesn't carry over.
+ */
+export function ToolApprovalCard({
+    request,
+    onDecide,
+    disabled = false,
+}: {
+    request: ToolApprovalRequest;
+    /** Rejects if the decision couldn't be delivered; the card stays usable to try again. */
+    onDecide: (decision: ToolDecision) => Promise<void>;
+    disabled?: boolean;
+}) {
+    const formatted = JSON.stringify(request.args, null, 2);
+    const [isEditing, setIsEditing] = useState(false);
+    const [argsText, setArgsText] = useState(formatted);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const editedArgs = isEditing ? parseArgs(argsText) : request.args;
+    const isInvalid = isEditing && editedArgs === null;
+    const isBusy = disabled || isSubmitting;
+
+    const decide = async (decision: ToolDecision) => {
+        setIsSubmitting(true);
+        try {
+            await onDecide(decision);
+        } catch {
+            setIsSubmitting(false); // Reported by the caller
+        }
+    };
+
+    const approve = () => {
+        if (!editedArgs) return;
+        // Only send args when they were changed, so the backend runs its own copy otherwise
+        const changed = isEditing && JSON.stringify(editedArgs) !== JSON.stringify(request.args);
+        decide(changed ? { decision: "approve", args: editedArgs } : { decision: "approve" });
+    };
+
+    return (
+        <div className="not-prose my-2 rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 space-y-2.5">
+            <div className="flex items-start gap-2">
+                <ShieldQuestion className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-400" />
+                <div className="min-w-0 text-sm">
+                    <p>
+                        The agent wants to run <span className="font-mono font-medium">{request.name}</span>
+                    </p>
+                    {request.reason && <p className="text-xs text-muted-foreground">{request.reason}</p>}
+                </div>
+            </div>
+
+            {isEditing ? (
+                <div className="space-y-1">
+                    <Textarea
+                        value={argsText}
+                        onChange={(e) => setArgsText(e.target.value)}
+                        rows={Math.min(argsText.split("\n").length + 1, 12)}
+                        spellCheck={false}
+                        aria-invalid={isInvalid}
+                        aria-label="Tool arguments (JSON)"
+                        className="font-mono text-[11px] leading-snug"
+                        autoFocus
+                    />
+                    {isInvalid && <p className="text-[11px] text-red-400">Arguments must be a JSON object.</p>}
+                </div>
+            ) : Object.keys(request.args).length > 0 ? (
+                <pre className="text-[11px] leading-snug bg-muted/40 rounded-md p-2 overflow-x-auto max-h-56">{formatted}</pre>
+            ) : (
+                <p className="text-xs italic text-muted-foreground">No arguments</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Button size="xs" onClick={approve} disabled={isBusy || isInvalid}>
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : <Check />}
+                    {isEditing ? "Approve edited" : "Approve"}
+                </Button>
+                {isEditing ? (
+                    <Button size="xs" variant="ghost" onClick={() => { setIsEditing(false); setArgsText(formatted); }} disabled={isBusy}>
+                        Discard edits
+                    </Button>
+                ) : (
+                    <Button size="xs" variant="outline" onClick={() => setIsEditing(true)} disabled={isBusy}>
+                        <Pencil /> Edit
+                    </Button>
+                )}
+                <Button
+                    size="xs"
+                    variant="ghost"
+                    onClick={() => decide({ decision: "reject" })}
+                    disabled={isBusy}
+                    className="text-red-400 hover:text-red-400"
+                >
+                    <X /> Reject
+                </Button>
+            </div>
+        </div>
+    );
+}
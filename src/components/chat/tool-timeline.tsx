@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronDown, ChevronRight, Loader2, Wrench, X } from "lucide-react";
+import type { ToolStep } from "@/services/tool-steps";
+
+function formatDuration(ms?: number) {
+    if (ms === undefined) return null;
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// ── Single step: status icon, name, duration, expandable args/result ─────────
+function ToolStepRow({ step }: { step: ToolStep }) {
+    const [open, setOpen] = useState(false);
+    const hasDetails = (step.args && Object.keys(step.args).length > 0) || !!step.result;
+    const duration = formatDuration(step.durationMs);
+
+    return (
+        <li className="relative pl-5">
+            <span className="absolute left-0 top-1 flex items-center justify-center w-3.5 h-3.5">
+                {step.status === "running" && <Loader2 className="w-3 h-3 animate-spin text-blue-400" />}
+                {step.status === "done" && <Check className="w-3 h-3 text-green-500" />}
+                {step.status === "error" && <X className="w-3 h-3 text-red-400" />}
+            </span>
+            <button
+                onClick={() => setOpen((o) => !o)}
+                disabled={!hasDetails}
+                className="flex items-center gap-1.5 w-full text-left text-xs text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground transition-colors"
+            >
+                <span className="font-mono truncate">{step.name}</span>
+                {duration && <span className="text-[10px] opacity-70 flex-shrink-0">{duration}</span>}
+                {hasDetails && (open
+                    ? <ChevronDown className="w-3 h-3 flex-shrink-0" />
+                    : <ChevronRight className="w-3 h-3 flex-shrink-0" />)}
+            </button>
+            {open && hasDetails && (
+                <div className="mt-1.5 mb-1 space-y-1.5">
+                    {step.args && Object.keys(step.args).length > 0 && (
+                        <pre className="text-[11px] leading-snug bg-muted/40 rounded-md p-2 overflow-x-auto max-h-40">
+                            {JSON.stringify(step.args, null, 2)}
+                        </pre>
+                    )}
+                    {step.result && (
+                        <pre className="text-[11px] leading-snug bg-muted/40 rounded-md p-2 overflow-x-auto max-h-56 whitespace-pre-wrap break-words">
+                            {step.result}
+                        </pre>
+                    )}
+                </div>
+            )}
+        </li>
+    );
+}
+
+/**
+ * Collapsible list of the tool calls behind an AI turn. Live timelines start
+ * expanded so the user can follow along; replayed ones start collapsed.
+ */
+export function ToolTimeline({ steps, live = false }: { steps: ToolStep[]; live?: boolean }) {
+    const [expanded, setExpanded] = useState(live);
+    if (steps.length === 0) return null;
+
+    const running = steps.some((s) => s.status === "running");
+    const failed = steps.filter((s) => s.status === "error").length;
+    const label = running
+        ? `Running ${steps.at(-1)?.name ?? "tool"}…`
+        : `Used ${steps.length} tool${steps.length === 1 ? "" : "s"}${failed ? ` · ${failed} failed` : ""}`;
+
+    return (
+        <div className="mb-2 rounded-lg border border-border/50 bg-muted/20 px-2.5 py-1.5 not-prose">
+            <button
+                onClick={() => setExpanded((e) => !e)}
+                className="flex items-center gap-2 w-full text-left text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+                <Wrench className={`w-3 h-3 flex-shrink-0 ${running ? "animate-pulse" : ""}`} />
+                <span className="truncate flex-1 italic">{label}</span>
+                {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+            {expanded && (
+                <ol className="mt-2 mb-0.5 space-y-1.5 border-l border-border/60 ml-1.5 pl-1">
+                    {steps.map((step) => <ToolStepRow key={step.id} step={step} />)}
+                </ol>
+            )}
+        </div>
+    );
+}
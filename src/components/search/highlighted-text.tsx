@@ -0,0 +1,19 @@
+function escapeRegExp(value: string) {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Renders `text` with every case-insensitive occurrence of `query` wrapped in <mark>. */
+export function HighlightedText({ text, query }: { text: string; query: string }) {
+    const q = query.trim();
+    if (!q) return <>{text}</>;
+    const parts = text.split(new RegExp(`(${escapeRegExp(q)})`, "gi"));
+    return (
+        <>
+            {parts.map((part, i) =>
+                i % 2 === 1
+                    ? <mark key={i} className="bg-amber-400/30 text-foreground rounded-sm px-0.5">{part}</mark>
+                    : part
+            )}
+        </>
+    );
+}
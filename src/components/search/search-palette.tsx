@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, MessageSquare, Search, TextSearch } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { HighlightedText } from "@/components/search/highlighted-text";
+import { useSessionSearch } from "@/hooks/use-session-search";
+import type { Session } from "@/services/api";
+
+const MAX_TITLE_RESULTS = 8;
+
+type PaletteResult =
+    | { kind: "session"; sessionId: string; title: string }
+    | { kind: "message"; sessionId: string; title: string; snippet: string };
+
+/**
+ * Cmd/Ctrl+K palette: jump to a session by title or to a message by content.
+ * `onNavigate` receives the query for message hits so the chat can highlight it.
+ */
+export function SearchPalette({
+    open,
+    onOpenChange,
+    sessions,
+    onNavigate,
+}: {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    sessions: Session[];
+    onNavigate: (sessionId: string, highlight?: string) => void;
+}) {
+    const [query, setQuery] = useState("");
+    const [activeIndex, setActiveIndex] = useState(0);
+    const { titleResults, contentHits, isSearchingContent } = useSessionSearch(query, sessions);
+
+    const results: PaletteResult[] = [
+        ...titleResults.slice(0, MAX_TITLE_RESULTS).map((s) => ({ kind: "session" as const, sessionId: s.id, title: s.title })),
+        ...contentHits.map((h) => ({ kind: "message" as const, sessionId: h.session_id, title: h.title, snippet: h.snippet })),
+    ];
+    const active = Math.min(activeIndex, Math.max(results.length - 1, 0));
+
+    const close = () => {
+        onOpenChange(false);
+        setQuery("");
+        setActiveIndex(0);
+    };
+
+    const select = (result: PaletteResult) => {
+        onNavigate(result.sessionId, result.kind === "message" ? query.trim() : undefined);
+        close();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActiveIndex((active + 1) % Math.max(results.length, 1));
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActiveIndex((active - 1 + results.length) % Math.max(results.length, 1));
+        } else if (e.key === "Enter" && results[active]) {
+            e.preventDefault();
+            select(results[active]);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+            <DialogContent showCloseButton={false} className="p-0 gap-0 sm:max-w-xl overflow-hidden top-[20%] translate-y-0">
+                <DialogTitle className="sr-only">Search conversations</DialogTitle>
+                <div className="flex items-center gap-2 px-4 border-b border-border">
+                    <Search className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Search conversations and messages…"
+                        className="flex-1 bg-transparent py-3.5 text-sm outline-none placeholder:text-muted-foreground"
+                    />
+                    {isSearchingContent && <Loader2 className="w-4 h-4 text-muted-foreground animate-spin" />}
+                </div>
+
+                <div className="max-h-[50vh] overflow-y-auto p-2 sidebar-scroll">
+                    {results.length === 0 ? (
+                        <p className="text-xs text-center text-muted-foreground py-8">
+                            {isSearchingContent ? "Searching…" : "No matching conversations"}
+                        </p>
+                    ) : (
+                        results.map((result, i) => (
+                            <button
+                                key={`${result.kind}-${result.sessionId}-${i}`}
+                                onClick={() => select(result)}
+                                onMouseMove={() => setActiveIndex(i)}
+                                className={`w-full flex items-start gap-3 px-3 py-2 rounded-md text-left text-sm transition-colors
+                                    ${i === active ? "bg-accent text-accent-foreground" : "text-muted-foreground"}`}
+                            >
+                                {result.kind === "session"
+                                    ? <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                    : <TextSearch className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+                                <span className="flex flex-col min-w-0">
+                                    <span className="truncate font-medium">
+                                        <HighlightedText text={result.title} query={query} />
+                                    </span>
+                                    {result.kind === "message" && (
+                                        <span className="text-xs text-muted-foreground line-clamp-2">
+                                            <HighlightedText text={result.snippet} query={query} />
+                                        </span>
+                                    )}
+                                </span>
+                            </button>
+                        ))
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
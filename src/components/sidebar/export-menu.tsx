@@ -0,0 +1,45 @@
+"use client";
+
+import { FileCode2, FileJson, FileText } from "lucide-react";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, type ExportFormat } from "@/services/export";
+
+const FORMAT_ICONS: Record<ExportFormat, React.ComponentType<{ className?: string }>> = {
+    markdown: FileText,
+    json: FileJson,
+    html: FileCode2,
+};
+
+/** Format picker for exporting sessions; `children` is the trigger button. */
+export function ExportMenu({
+    onExport,
+    children,
+}: {
+    onExport: (format: ExportFormat) => void;
+    children: React.ReactNode;
+}) {
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Export as</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => {
+                    const Icon = FORMAT_ICONS[format];
+                    return (
+                        <DropdownMenuItem key={format} onSelect={() => onExport(format)}>
+                            <Icon /> {EXPORT_FORMATS[format].label}
+                        </DropdownMenuItem>
+                    );
+                })}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ChevronDown, ChevronRight, Folder, FolderPlus, Pin, X } from "lucide-react";
+import type { Session } from "@/services/api";
+import type { ExportFormat } from "@/services/export";
+import { groupByDate, sortByRecency } from "@/services/session-groups";
+import { useFolders } from "@/hooks/use-folders";
+import { SessionRow, SESSION_DRAG_TYPE } from "@/components/sidebar/session-row";
+
+const LOAD_MORE_THRESHOLD = 10; // Ask for the next page when this many rows from the end
+const UNFILED_ZONE = "";        // Drop zone id of the date groups (removes the folder)
+
+type RowActions = {
+    currentSessionId: string | null;
+    isOffline: boolean;
+    onRename: (id: string, newTitle: string) => Promise<void>;
+    onTogglePin: (id: string) => Promise<void>;
+    onToggleArchive: (id: string) => void;
+    onExport: (id: string, format: ExportFormat) => void;
+    onShare: (id: string) => void;
+    onRevokeShare: (id: string) => void;
+    /** Sessions whose title was just generated — shown with a reveal animation. */
+    autoTitledIds: ReadonlySet<string>;
+    onDelete: (id: string) => void;
+    /** Set while in multi-select mode. */
+    selectedIds: ReadonlySet<string> | null;
+    onToggleSelect: (id: string) => void;
+};
+
+type ListProps = RowActions & {
+    sessions: Session[];
+    /** Scroll container of the sidebar — only rows inside its viewport are mounted. */
+    scrollElement: HTMLElement | null;
+    /** Called when the user scrolls near the end of the loaded sessions. */
+    onEndReached?: () => void;
+};
+
+/**
+ * One line of the flattened list. `zone` is the folder a session dropped
+ * on that line moves to (UNFILED_ZONE for none); lines without a zone don't
+ * accept drops.
+ */
+type Entry =
+    | { kind: "label"; id: string; label: React.ReactNode; zone?: string }
+    | { kind: "folders-header" }
+    | { kind: "new-folder" }
+    | { kind: "folder"; name: string; count: number; open: boolean; zone: string }
+    | { kind: "folder-empty"; zone: string }
+    | { kind: "unfiled-empty"; zone: string }
+    | { kind: "session"; session: Session; nested?: boolean; zone?: string };
+
+function entryKey(entry: Entry) {
+    switch (entry.kind) {
+        case "label": return `label:${entry.id}`;
+        case "folder": return `folder:${entry.name}`;
+        case "folder-empty": return `folder-empty:${entry.zone}`;
+        case "session": return `session:${entry.session.id}`;
+        default: return entry.kind;
+    }
+}
+
+function estimateEntry(entry: Entry) {
+    return entry.kind === "session" ? 40 : 32;
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+    return (
+        <p className="px-2 pt-3 pb-1 text-[10px] uppercase font-semibold text-muted-foreground/80 tracking-widest">
+            {children}
+        </p>
+    );
+}
+
+/**
+ * Renders `entries` through a virtualizer bound to the sidebar's scroll
+ * container, so thousands of sessions only cost the rows on screen.
+ */
+function WindowedList({
+    entries,
+    scrollElement,
+    onEndReached,
+    renderEntry,
+    ...dropHandlers
+}: {
+    entries: Entry[];
+    scrollElement: HTMLElement | null;
+    onEndReached?: () => void;
+    renderEntry: (entry: Entry) => React.ReactNode;
+} & React.HTMLAttributes<HTMLDivElement>) {
+    const [listElement, setListElement] = useState<HTMLDivElement | null>(null);
+    // eslint-disable-next-line react-hooks/incompatible-library -- React Compiler isn't enabled
+    const virtualizer = useVirtualizer({
+        count: entries.length,
+        getScrollElement: () => scrollElement,
+        estimateSize: (index) => estimateEntry(entries[index]),
+        getItemKey: (index) => entryKey(entries[index]),
+        scrollMargin: listElement?.offsetTop ?? 0, // Header rows above the list inside the same scroller
+        overscan: 10,
+    });
+    const virtualItems = virtualizer.getVirtualItems();
+    const lastIndex = virtualItems.at(-1)?.index ?? -1;
+
+    useEffect(() => {
+        if (onEndReached && lastIndex >= entries.length - LOAD_MORE_THRESHOLD) onEndReached();
+    }, [lastIndex, entries.length, onEndReached]);
+
+    return (
+        <div
+            ref={setListElement}
+            {...dropHandlers}
+            className="relative w-full"
+            style={{ height: virtualizer.getTotalSize() }}
+        >
+            {virtualItems.map((item) => (
+                <div
+                    key={item.key}
+                    data-index={item.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full"
+                    style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+                >
+                    {renderEntry(entries[item.index])}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function renderSession(session: Session, actions: RowActions) {
+    return (
+        <SessionRow
+            session={session}
+            isActive={actions.currentSessionId === session.id}
+            isOffline={actions.isOffline}
+            isNewTitle={actions.autoTitledIds.has(session.id)}
+            selection={actions.selectedIds && { selected: actions.selectedIds.has(session.id), onToggle: actions.onToggleSelect }}
+            onRename={actions.onRename}
+            onTogglePin={actions.onTogglePin}
+            onToggleArchive={actions.onToggleArchive}
+            onExport={actions.onExport}
+            onShare={actions.onShare}
+            onRevokeShare={actions.onRevokeShare}
+            onDelete={actions.onDelete}
+        />
+    );
+}
+
+/** Folder a drag event is over, read from the nearest `data-drop-zone`. */
+function dropZoneOf(e: React.DragEvent) {
+    return (e.target as Element).closest<HTMLElement>("[data-drop-zone]")?.dataset.dropZone;
+}
+
+/**
+ * Session list: pinned sessions first, then user folders, then everything
+ * else grouped by last activity. Rows can be dragged between folders and
+ * back onto the date groups to unfile them.
+ */
+export function SessionList({
+    sessions,
+    scrollElement,
+    onEndReached,
+    onMoveToFolder,
+    ...actions
+}: ListProps & {
+    onMoveToFolder: (id: string, folder: string | null) => Promise<void>;
+}) {
+    const { folders, createFolder, removeFolder } = useFolders(sessions.map((s) => s.folder));
+    const [newFolder, setNewFolder] = useState<string | null>(null);
+    const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
+    const [overZone, setOverZone] = useState<string | null>(null);
+
+    const pinned = sortByRecency(sessions.filter((s) => s.pinned));
+    const rest = sessions.filter((s) => !s.pinned);
+    const unfiled = rest.filter((s) => !s.folder);
+
+    const entries: Entry[] = [];
+    if (pinned.length > 0) {
+        entries.push({
+            kind: "label",
+            id: "pinned",
+            label: <span className="inline-flex items-center gap-1"><Pin className="w-2.5 h-2.5" /> Pinned</span>,
+        });
+        entries.push(...pinned.map((session) => ({ kind: "session" as const, session })));
+    }
+    entries.push({ kind: "folders-header" });
+    if (newFolder !== null) entries.push({ kind: "new-folder" });
+    for (const name of folders) {
+        const inFolder = sortByRecency(rest.filter((s) => s.folder === name));
+        const open = !collapsed.has(name);
+        entries.push({ kind: "folder", name, count: inFolder.length, open, zone: name });
+        if (!open) continue;
+        if (inFolder.length === 0) entries.push({ kind: "folder-empty", zone: name });
+        entries.push(...inFolder.map((session) => ({ kind: "session" as const, session, nested: true, zone: name })));
+    }
+    for (const group of groupByDate(unfiled)) {
+        entries.push({ kind: "label", id: group.label, label: group.label, zone: UNFILED_ZONE });
+        entries.push(...group.sessions.map((session) => ({ kind: "session" as const, session, zone: UNFILED_ZONE })));
+    }
+    if (unfiled.length === 0) entries.push({ kind: "unfiled-empty", zone: UNFILED_ZONE });
+
+    const commitNewFolder = () => {
+        if (newFolder?.trim()) createFolder(newFolder);
+        setNewFolder(null);
+    };
+
+    const toggleFolder = (name: string) => setCollapsed((prev) => {
+        const next = new Set(prev);
+        if (!next.delete(name)) next.add(name);
+        return next;
+    });
+
+    const renderEntry = (entry: Entry) => {
+        const zone = "zone" in entry ? entry.zone : undefined;
+        const content = (() => {
+            switch (entry.kind) {
+                case "label":
+                    return <SectionLabel>{entry.label}</SectionLabel>;
+                case "folders-header":
+                    return (
+                        <div className="flex items-center justify-between pr-1">
+                            <SectionLabel>Folders</SectionLabel>
+                            <button
+                                onClick={() => setNewFolder("")}
+                                className="mt-2 p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                                title="New folder"
+                            >
+                                <FolderPlus className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    );
+                case "new-folder":
+                    return (
+                        <input
+                            autoFocus
+                            value={newFolder ?? ""}
+                            onChange={(e) => setNewFolder(e.target.value)}
+                            onBlur={commitNewFolder}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") commitNewFolder();
+                                if (e.key === "Escape") setNewFolder(null);
+                            }}
+                            placeholder="Folder name"
+                            maxLength={40}
+                            className="w-full bg-background border border-primary/50 rounded px-2 py-1 text-xs text-foreground outline-none focus:ring-1 focus:ring-primary/40"
+                        />
+                    );
+                case "folder":
+                    return (
+                        <div className="group flex items-center gap-1.5 px-2 py-1.5 text-xs text-muted-foreground">
+                            <button onClick={() => toggleFolder(entry.name)} className="flex items-center gap-1.5 flex-1 min-w-0 hover:text-foreground transition-colors">
+                                {entry.open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                                <Folder className="w-3.5 h-3.5 flex-shrink-0" />
+                                <span className="truncate font-medium">{entry.name}</span>
+                                <span className="text-[10px] opacity-60">{entry.count}</span>
+                            </button>
+                            {entry.count === 0 && (
+                                <button
+                                    onClick={() => removeFolder(entry.name)}
+                                    className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+                                    title="Remove empty folder"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            )}
+                        </div>
+                    );
+                case "folder-empty":
+                    return <p className="pl-5 pr-2 py-1.5 text-[11px] italic text-muted-foreground/60">Drag chats here</p>;
+                case "unfiled-empty":
+                    return <div className="h-8" />;
+                case "session":
+                    return <div className={entry.nested ? "pl-3" : ""}>{renderSession(entry.session, actions)}</div>;
+            }
+        })();
+        return (
+            <div
+                data-drop-zone={zone}
+                className={`pb-1 transition-colors ${zone !== undefined && zone === overZone ? "bg-primary/10" : ""}`}
+            >
+                {content}
+            </div>
+        );
+    };
+
+    return (
+        <WindowedList
+            entries={entries}
+            scrollElement={scrollElement}
+            onEndReached={onEndReached}
+            renderEntry={renderEntry}
+            onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+                const zone = dropZoneOf(e);
+                setOverZone(zone ?? null);
+                if (zone === undefined) return; // Pinned rows and headers aren't drop targets
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setOverZone(null);
+            }}
+            onDrop={(e) => {
+                const zone = dropZoneOf(e);
+                setOverZone(null);
+                if (zone === undefined) return;
+                e.preventDefault();
+                const id = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+                if (id) onMoveToFolder(id, zone || null);
+            }}
+        />
+    );
+}
+
+/** Flat list used while searching — grouping would scatter the matches. */
+export function FlatSessionList({ sessions, scrollElement, onEndReached, ...actions }: ListProps) {
+    return (
+        <WindowedList
+            entries={sessions.map((session) => ({ kind: "session", session }))}
+            scrollElement={scrollElement}
+            onEndReached={onEndReached}
+            renderEntry={(entry) => entry.kind === "session" && <div className="pb-1">{renderSession(entry.session, actions)}</div>}
+        />
+    );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, useRef } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { MessageSquare, Pencil, Trash2, Check, Pin, PinOff, Square, SquareCheck, Archive, ArchiveRestore, Download, Link2, Link2Off, Copy } from "lucide-react";
+import type { Session } from "@/services/api";
+import type { ExportFormat } from "@/services/export";
+import { ExportMenu } from "@/components/sidebar/export-menu";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export const SESSION_DRAG_TYPE = "application/x-agent-session";
+
+/**
+ * Session row with inline rename, pin, share, export, archive and delete; draggable onto folders.
+ * With `selection` set the row becomes a checkbox for bulk actions.
+ */
+export function SessionRow({
+    session,
+    isActive,
+    isOffline,
+    isNewTitle = false,
+    selection,
+    onRename,
+    onTogglePin,
+    onToggleArchive,
+    onExport,
+    onShare,
+    onRevokeShare,
+    onDelete,
+}: {
+    session: Session;
+    isActive: boolean;
+    isOffline: boolean;
+    /** Title was just generated; it's revealed with a short animation. */
+    isNewTitle?: boolean;
+    selection?: { selected: boolean; onToggle: (id: string) => void } | null;
+    onRename: (id: string, newTitle: string) => Promise<void>;
+    onTogglePin: (id: string) => Promise<void>;
+    onToggleArchive: (id: string) => void;
+    onExport: (id: string, format: ExportFormat) => void;
+    onShare: (id: string) => void;
+    onRevokeShare: (id: string) => void;
+    onDelete: (id: string) => void;
+}) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editValue, setEditValue] = useState(session.title);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const startEdit = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setEditValue(session.title);
+        setIsEditing(true);
+        setTimeout(() => inputRef.current?.select(), 0);
+    };
+
+    const commitRename = async () => {
+        const trimmed = editValue.trim();
+        if (trimmed && trimmed !== session.title) {
+            await onRename(session.id, trimmed);
+        }
+        setIsEditing(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === "Enter") commitRename();
+        if (e.key === "Escape") { setEditValue(session.title); setIsEditing(false); }
+    };
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDelete(session.id); // Deferred — the sidebar offers Undo
+    };
+
+    const baseClass = "group flex items-center gap-2 px-2 py-2 text-sm rounded-lg transition-all";
+    const stateClass = isActive
+        ? "bg-accent text-accent-foreground shadow-sm"
+        : "hover:bg-muted/50 text-muted-foreground hover:text-foreground";
+    const disabledClass = "opacity-50 cursor-not-allowed text-muted-foreground";
+
+    if (isOffline) {
+        return (
+            <div className={`${baseClass} ${disabledClass}`} title="System offline — navigation disabled">
+                <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate flex-1 font-medium">{session.title}</span>
+            </div>
+        );
+    }
+
+    if (selection) {
+        return (
+            <button
+                onClick={() => selection.onToggle(session.id)}
+                className={`${baseClass} w-full text-left ${selection.selected ? "bg-accent text-accent-foreground" : "hover:bg-muted/50 text-muted-foreground hover:text-foreground"}`}
+                aria-pressed={selection.selected}
+            >
+                {selection.selected
+                    ? <SquareCheck className="w-4 h-4 flex-shrink-0 text-primary" />
+                    : <Square className="w-4 h-4 flex-shrink-0" />}
+                <span className="truncate flex-1 font-medium">{session.title}</span>
+            </button>
+        );
+    }
+
+    return (
+        <div
+            className={`${baseClass} ${stateClass} relative`}
+            draggable={!isEditing && !session.archived}
+            onDragStart={(e) => {
+                e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+                e.dataTransfer.effectAllowed = "move";
+            }}
+        >
+            {isEditing ? (
+                /* ── Inline rename input ── */
+                <>
+                    <MessageSquare className="w-4 h-4 flex-shrink-0 text-primary" />
+                    <input
+                        ref={inputRef}
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={handleKeyDown}
+                        className="flex-1 bg-background border border-primary/50 rounded px-2 py-0.5 text-sm text-foreground outline-none focus:ring-1 focus:ring-primary/40 min-w-0"
+                        maxLength={80}
+                    />
+                    <button
+                        onMouseDown={(e) => { e.preventDefault(); commitRename(); }}
+                        className="p-1 rounded hover:bg-primary/10 text-primary flex-shrink-0"
+                        title="Save"
+                    >
+                        <Check className="w-3 h-3" />
+                    </button>
+                </>
+            ) : (
+                /* ── Normal row ── */
+                <>
+                    <Link href={`/?session=${session.id}`} className="flex items-center gap-2 flex-1 min-w-0">
+                        <MessageSquare
+                            className={`w-4 h-4 flex-shrink-0 ${isActive ? "text-primary" : "text-muted-foreground"}`}
+                        />
+                        {isNewTitle ? (
+                            <motion.span
+                                key={session.title}
+                                className="truncate font-medium"
+                                initial={{ clipPath: "inset(0 100% 0 0)", opacity: 0.4 }}
+                                animate={{ clipPath: "inset(0 0% 0 0)", opacity: 1 }}
+                                transition={{ duration: 0.6, ease: "easeOut" }}
+                            >
+                                {session.title}
+                            </motion.span>
+                        ) : (
+                            <span className="truncate font-medium">{session.title}</span>
+                        )}
+                    </Link>
+
+                    {/* Action buttons — revealed on row hover */}
+                    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                        {!session.archived && (
+                            <button
+                                onClick={(e) => { e.preventDefault(); e.stopPropagation(); onTogglePin(session.id); }}
+                                className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                                title={session.pinned ? "Unpin" : "Pin"}
+                            >
+                                {session.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                            </button>
+                        )}
+                        <button
+                            onClick={startEdit}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                            title="Rename"
+                        >
+                            <Pencil className="w-3 h-3" />
+                        </button>
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <button
+                                    onClick={(e) => e.stopPropagation()}
+                                    className={`p-1 rounded hover:bg-muted transition-colors ${session.share_id ? "text-primary" : "text-muted-foreground hover:text-foreground"}`}
+                                    title={session.share_id ? "Shared — manage link" : "Share"}
+                                >
+                                    <Link2 className="w-3 h-3" />
+                                </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                                <DropdownMenuItem onSelect={() => onShare(session.id)}>
+                                    {session.share_id ? <><Copy /> Copy link</> : <><Link2 /> Create read-only link</>}
+                                </DropdownMenuItem>
+                                {session.share_id && (
+                                    <DropdownMenuItem variant="destructive" onSelect={() => onRevokeShare(session.id)}>
+                                        <Link2Off /> Stop sharing
+                                    </DropdownMenuItem>
+                                )}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                        <ExportMenu onExport={(format) => onExport(session.id, format)}>
+                            <button
+                                onClick={(e) => e.stopPropagation()}
+                                className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                                title="Export"
+                            >
+                                <Download className="w-3 h-3" />
+                            </button>
+                        </ExportMenu>
+                        <button
+                            onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleArchive(session.id); }}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+                            title={session.archived ? "Restore" : "Archive"}
+                        >
+                            {session.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                        </button>
+                        <button
+                            onClick={handleDelete}
+                            className="p-1 rounded hover:bg-red-500/10 text-muted-foreground hover:text-red-400 transition-colors"
+                            title="Delete"
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import type { SystemStatus } from "@/context/system-status-context";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HISTORY_LENGTH, SLOW_THRESHOLD_MS, type HealthCheck, type ServiceHealth, type ServiceStatus } from "@/services/health";
+
+const STATUS_CONFIG: Record<SystemStatus, { dot: string; text: string; label: string }> = {
+    checking: {
+        dot: "bg-amber-400 animate-pulse shadow-[0_0_6px_2px_rgba(251,191,36,0.5)]",
+        text: "text-amber-400",
+        label: "Checking…",
+    },
+    online: {
+        dot: "bg-green-500 animate-pulse shadow-[0_0_6px_2px_rgba(34,197,94,0.5)]",
+        text: "text-green-500",
+        label: "System Online",
+    },
+    degraded: {
+        dot: "bg-amber-500 shadow-[0_0_6px_2px_rgba(245,158,11,0.5)]",
+        text: "text-amber-400",
+        label: "Degraded",
+    },
+    offline: {
+        dot: "bg-red-500 shadow-[0_0_6px_2px_rgba(239,68,68,0.5)]",
+        text: "text-red-400",
+        label: "System Offline",
+    },
+};
+
+const SERVICE_COLORS: Record<ServiceStatus, string> = {
+    up: "bg-green-500",
+    slow: "bg-amber-500",
+    down: "bg-red-500",
+};
+
+function describeCheck(check: HealthCheck) {
+    const time = new Date(check.at).toLocaleTimeString();
+    return check.status === "down" ? `${time} — ${check.error ?? "down"}` : `${time} — ${check.latencyMs} ms`;
+}
+
+function ServiceRow({ service }: { service: ServiceHealth }) {
+    const latest = service.history.at(-1);
+    // Pad on the left so the newest check always sits at the right edge
+    const slots: (HealthCheck | null)[] = [
+        ...Array<null>(Math.max(HISTORY_LENGTH - service.history.length, 0)).fill(null),
+        ...service.history,
+    ];
+
+    return (
+        <li className="space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+                <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${latest ? SERVICE_COLORS[latest.status] : "bg-muted-foreground"}`} />
+                <span className="font-medium truncate flex-1">
+                    {service.label}
+                    {service.critical && <span className="ml-1 text-[10px] text-muted-foreground font-normal">required</span>}
+                </span>
+                <span className={`tabular-nums ${latest?.status === "down" ? "text-red-400" : "text-muted-foreground"}`}>
+                    {!latest ? "—" : latest.status === "down" ? "Down" : `${latest.latencyMs} ms`}
+                </span>
+            </div>
+            <div className="flex gap-px h-3" aria-label={`${service.label} history`}>
+                {slots.map((check, i) => (
+                    <span
+                        key={i}
+                        className={`flex-1 rounded-[1px] ${check ? SERVICE_COLORS[check.status] : "bg-muted"} ${check?.status === "up" ? "opacity-70" : ""}`}
+                        title={check ? describeCheck(check) : undefined}
+                    />
+                ))}
+            </div>
+            {latest?.status === "down" && latest.error && (
+                <p className="text-[10px] text-muted-foreground truncate" title={latest.error}>{latest.error}</p>
+            )}
+        </li>
+    );
+}
+
+/** Sidebar footer status; clicking it shows per-service latency and recent check history. */
+export function SystemStatusBadge({
+    status,
+    failures,
+    services,
+}: {
+    status: SystemStatus;
+    failures: string[];
+    services: ServiceHealth[];
+}) {
+    const config = STATUS_CONFIG[status];
+    const slow = services.filter((s) => s.history.at(-1)?.status === "slow").map((s) => s.label);
+    const lastChecked = Math.max(0, ...services.map((s) => s.history.at(-1)?.at ?? 0));
+
+    return (
+        <div className="p-4 border-t border-border bg-muted/10">
+            <Popover>
+                <PopoverTrigger asChild>
+                    <button className="flex items-center gap-3 px-2 py-1 -my-1 w-full rounded-md text-left hover:bg-muted/50 transition-colors">
+                        <div className={`w-2 h-2 rounded-full flex-shrink-0 ${config.dot}`} />
+                        <div className="flex flex-col min-w-0">
+                            <span
+                                className={`text-[10px] font-semibold uppercase tracking-widest ${config.text}`}
+                            >
+                                {config.label}
+                            </span>
+                            {status !== "online" && failures.length > 0 && (
+                                <span className="text-[9px] text-muted-foreground truncate mt-0.5">
+                                    Unreachable: {failures.join(", ")}
+                                </span>
+                            )}
+                            {status === "degraded" && failures.length === 0 && slow.length > 0 && (
+                                <span className="text-[9px] text-muted-foreground truncate mt-0.5">
+                                    Slow: {slow.join(", ")}
+                                </span>
+                            )}
+                        </div>
+                    </button>
+                </PopoverTrigger>
+                <PopoverContent side="top" align="start" className="w-72 p-3">
+                    <div className="flex items-baseline justify-between mb-3">
+                        <h3 className="text-sm font-semibold">Services</h3>
+                        {lastChecked > 0 && (
+                            <span className="text-[10px] text-muted-foreground">
+                                Checked {new Date(lastChecked).toLocaleTimeString()}
+                            </span>
+                        )}
+                    </div>
+                    {services.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Running the first check…</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {services.map((service) => <ServiceRow key={service.path} service={service} />)}
+                        </ul>
+                    )}
+                    <p className="mt-3 text-[10px] text-muted-foreground">
+                        Slower than {SLOW_THRESHOLD_MS / 1000} s counts as degraded. Last {HISTORY_LENGTH} checks shown, newest on the right.
+                    </p>
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+}
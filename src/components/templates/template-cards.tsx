@@ -0,0 +1,49 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { BookText, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PromptTemplate } from "@/services/api";
+
+const MAX_CARDS = 4;
+
+/** Quick-start cards for the welcome screen: one click fills in a template. */
+export function TemplateCards({
+    templates,
+    onPick,
+    onManage,
+}: {
+    templates: PromptTemplate[];
+    onPick: (template: PromptTemplate) => void;
+    onManage: () => void;
+}) {
+    return (
+        <div className="w-full max-w-2xl space-y-3">
+            {templates.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 md:gap-3">
+                    {templates.slice(0, MAX_CARDS).map((template, i) => (
+                        <motion.button
+                            key={template.id}
+                            initial={{ opacity: 0, y: 8 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: 0.05 * i }}
+                            onClick={() => onPick(template)}
+                            className="flex items-start gap-3 rounded-lg border border-border bg-muted/20 px-4 py-3 text-left transition-colors hover:bg-muted/50 hover:border-primary/30"
+                        >
+                            <BookText className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary" />
+                            <span className="flex flex-col min-w-0">
+                                <span className="text-sm font-medium truncate">{template.title}</span>
+                                <span className="text-xs text-muted-foreground line-clamp-2">
+                                    {template.description || template.body}
+                                </span>
+                            </span>
+                        </motion.button>
+                    ))}
+                </div>
+            )}
+            <Button size="xs" variant="ghost" onClick={onManage} className="text-muted-foreground">
+                <Settings2 /> {templates.length > 0 ? "All templates" : "Create a prompt template"}
+            </Button>
+        </div>
+    );
+}
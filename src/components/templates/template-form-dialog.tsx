@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { fillTemplate, humanizeVariable, templateVariables } from "@/services/templates";
+import type { PromptTemplate } from "@/services/api";
+
+/** A placeholder on a line of its own (e.g. pasted text or code) gets a multi-line field. */
+function isBlockVariable(body: string, name: string) {
+    return new RegExp(`^[ \\t]*\\{\\{\\s*${name}\\s*\\}\\}[ \\t]*$`, "m").test(body);
+}
+
+/**
+ * Asks for the values of a template's `{{variables}}` and hands back the
+ * filled-in prompt. Remount (key) per template so the fields start empty.
+ */
+export function TemplateFormDialog({
+    template,
+    onOpenChange,
+    onInsert,
+}: {
+    template: PromptTemplate | null;
+    onOpenChange: (open: boolean) => void;
+    onInsert: (text: string) => void;
+}) {
+    const [values, setValues] = useState<Record<string, string>>({});
+    const variables = template ? templateVariables(template.body) : [];
+    const isComplete = variables.every((name) => values[name]?.trim());
+
+    const submit = () => {
+        if (!template || !isComplete) return;
+        onInsert(fillTemplate(template.body, values));
+    };
+
+    return (
+        <Dialog open={!!template} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{template?.title}</DialogTitle>
+                    <DialogDescription>
+                        {template?.description ?? "Fill in the blanks to build the prompt."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form
+                    id="template-form"
+                    className="space-y-4"
+                    onSubmit={(e) => { e.preventDefault(); submit(); }}
+                >
+                    {variables.map((name, i) => {
+                        const id = `template-var-${name}`;
+                        const multiline = !!template && isBlockVariable(template.body, name);
+                        return (
+                            <div key={name} className="space-y-1.5">
+                                <label htmlFor={id} className="text-sm font-medium">{humanizeVariable(name)}</label>
+                                {multiline ? (
+                                    <Textarea
+                                        id={id}
+                                        rows={5}
+                                        autoFocus={i === 0}
+                                        value={values[name] ?? ""}
+                                        onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                                        onKeyDown={(e) => {
+                                            // Ctrl/Cmd+Enter submits from a multi-line field
+                                            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); submit(); }
+                                        }}
+                                        className="text-sm max-h-60"
+                                    />
+                                ) : (
+                                    <Input
+                                        id={id}
+                                        autoFocus={i === 0}
+                                        value={values[name] ?? ""}
+                                        onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {template && (
+                        <div className="space-y-1.5">
+                            <span className="text-xs font-medium text-muted-foreground">Preview</span>
+                            <p className="max-h-40 overflow-y-auto whitespace-pre-wrap rounded-md bg-muted/30 px-3 py-2 text-xs text-muted-foreground">
+                                {fillTemplate(template.body, Object.fromEntries(
+                                    variables.map((name) => [name, values[name]?.trim() ? values[name] : `{{${name}}}`]),
+                                ))}
+                            </p>
+                        </div>
+                    )}
+                </form>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button type="submit" form="template-form" disabled={!isComplete}>Insert prompt</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
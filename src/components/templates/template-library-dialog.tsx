@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { ArrowLeft, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { templateVariables, toCommand } from "@/services/templates";
+import type { PromptTemplate } from "@/services/api";
+
+type Draft = Omit<PromptTemplate, "updated_at">;
+
+const EMPTY_DRAFT: Omit<Draft, "id"> = { command: "", title: "", description: "", body: "" };
+
+function TemplateEditor({
+    draft,
+    templates,
+    onCancel,
+    onSave,
+}: {
+    draft: Draft;
+    templates: PromptTemplate[];
+    onCancel: () => void;
+    onSave: (draft: Draft) => void;
+}) {
+    const [value, setValue] = useState(draft);
+    const command = toCommand(value.command || value.title);
+    const isTaken = templates.some((t) => t.id !== value.id && t.command === command);
+    const canSave = !!value.title.trim() && !!command && !!value.body.trim() && !isTaken;
+    const variables = templateVariables(value.body);
+
+    const save = () => {
+        if (!canSave) return;
+        onSave({
+            ...value,
+            command,
+            title: value.title.trim(),
+            description: value.description?.trim() || undefined,
+        });
+    };
+
+    return (
+        <form id="template-editor" className="space-y-4" onSubmit={(e) => { e.preventDefault(); save(); }}>
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                    <label htmlFor="template-title" className="text-sm font-medium">Name</label>
+                    <Input
+                        id="template-title"
+                        autoFocus
+                        value={value.title}
+                        placeholder="Review code"
+                        onChange={(e) => setValue((prev) => ({ ...prev, title: e.target.value }))}
+                    />
+                </div>
+                <div className="space-y-1.5">
+                    <label htmlFor="template-command" className="text-sm font-medium">Command</label>
+                    <Input
+                        id="template-command"
+                        value={value.command}
+                        placeholder={command || "review-code"}
+                        onChange={(e) => setValue((prev) => ({ ...prev, command: e.target.value }))}
+                        aria-invalid={isTaken}
+                    />
+                </div>
+            </div>
+            {isTaken && <p className="text-xs text-red-400 -mt-2">/{command} is already used by another template.</p>}
+
+            <div className="space-y-1.5">
+                <label htmlFor="template-description" className="text-sm font-medium">Description</label>
+                <Input
+                    id="template-description"
+                    value={value.description ?? ""}
+                    placeholder="Optional"
+                    onChange={(e) => setValue((prev) => ({ ...prev, description: e.target.value }))}
+                />
+            </div>
+
+            <div className="space-y-1.5">
+                <label htmlFor="template-body" className="text-sm font-medium">Prompt</label>
+                <Textarea
+                    id="template-body"
+                    rows={8}
+                    value={value.body}
+                    placeholder={"Summarize {{text}} in {{length}} bullet points."}
+                    onChange={(e) => setValue((prev) => ({ ...prev, body: e.target.value }))}
+                    className="text-sm font-mono max-h-72"
+                />
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    {variables.length === 0
+                        ? <span>Use {"{{name}}"} for parts that change each time.</span>
+                        : <>Variables: {variables.map((name) => <Badge key={name} variant="secondary" className="font-mono font-normal">{name}</Badge>)}</>}
+                </div>
+            </div>
+
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+                <Button type="submit" disabled={!canSave}>Save template</Button>
+            </DialogFooter>
+        </form>
+    );
+}
+
+/** Lists, creates, edits and deletes the prompt templates. */
+export function TemplateLibraryDialog({
+    open,
+    onOpenChange,
+    templates,
+    onSave,
+    onDelete,
+}: {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    templates: PromptTemplate[];
+    onSave: (template: Draft) => void;
+    onDelete: (id: string) => void;
+}) {
+    const [editing, setEditing] = useState<Draft | null>(null);
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        {editing && (
+                            <button onClick={() => setEditing(null)} className="p-0.5 rounded text-muted-foreground hover:text-foreground" title="Back to the list">
+                                <ArrowLeft className="w-4 h-4" />
+                            </button>
+                        )}
+                        {editing ? (templates.some((t) => t.id === editing.id) ? "Edit template" : "New template") : "Prompt templates"}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Type / in the message box to use a template.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {editing ? (
+                    <TemplateEditor
+                        key={editing.id}
+                        draft={editing}
+                        templates={templates}
+                        onCancel={() => setEditing(null)}
+                        onSave={(draft) => {
+                            onSave(draft);
+                            setEditing(null);
+                        }}
+                    />
+                ) : (
+                    <>
+                        <ul className="max-h-[50vh] overflow-y-auto -mx-2 sidebar-scroll">
+                            {templates.length === 0 && (
+                                <li className="text-xs text-center text-muted-foreground py-8">No templates yet</li>
+                            )}
+                            {templates.map((template) => (
+                                <li key={template.id} className="flex items-start gap-3 px-2 py-2 rounded-md hover:bg-muted/40">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm truncate">
+                                            <span className="font-mono font-medium">/{template.command}</span>
+                                            <span className="ml-2 text-muted-foreground">{template.title}</span>
+                                        </p>
+                                        <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap">
+                                            {template.description || template.body}
+                                        </p>
+                                    </div>
+                                    <Button size="icon-xs" variant="ghost" onClick={() => setEditing(template)} title="Edit">
+                                        <Pencil />
+                                    </Button>
+                                    <Button
+                                        size="icon-xs"
+                                        variant="ghost"
+                                        onClick={() => onDelete(template.id)}
+                                        className="hover:text-red-400"
+                                        title="Delete"
+                                    >
+                                        <Trash2 />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                        <DialogFooter>
+                            <Button onClick={() => setEditing({ id: uuidv4(), ...EMPTY_DRAFT })}>
+                                <Plus /> New template
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { Session } from "@/services/api";
+
+interface SessionsContextValue {
+    /** Sessions loaded by the sidebar, archived ones included. */
+    sessions: Session[];
+    /** Archives or restores sessions; resolves once the backend has answered. */
+    setArchived: (ids: string[], archived: boolean) => Promise<void>;
+    /** Titles a new session after its first reply, unless the user has named it. */
+    autoTitle: (id: string, firstMessage: string) => Promise<void>;
+}
+
+export const SessionsContext = createContext<SessionsContextValue>({
+    sessions: [],
+    setArchived: async () => {},
+    autoTitle: async () => {},
+});
+
+export function useSessions() {
+    return useContext(SessionsContext);
+}
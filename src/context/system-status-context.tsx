@@ -1,17 +1,22 @@
 "use client";
 
 import { createContext, useContext } from "react";
+import type { ServiceHealth } from "@/services/health";
 
-export type SystemStatus = "checking" | "online" | "offline";
+/** `degraded`: usable, but an optional service is down or slow. */
+export type SystemStatus = "checking" | "online" | "degraded" | "offline";
 
 interface SystemStatusContextValue {
     systemStatus: SystemStatus;
     systemFailures: string[];
+    /** Per-service results of the latest health checks. */
+    services: ServiceHealth[];
 }
 
 export const SystemStatusContext = createContext<SystemStatusContextValue>({
     systemStatus: "checking",
     systemFailures: [],
+    services: [],
 });
 
 export function useSystemStatus() {
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback } from "react";
+import { readStored, useStoredValue, writeStored } from "@/hooks/use-stored-value";
+import type { AgentSettings } from "@/services/api";
+
+const SETTINGS_KEY_PREFIX = "agent-core:settings:";
+
+const keyOf = (sessionId: string) => `${SETTINGS_KEY_PREFIX}${sessionId || "new"}`;
+
+function parseSettings(raw: string | null): AgentSettings {
+    if (!raw) return {};
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed as AgentSettings : {};
+    } catch {
+        return {};
+    }
+}
+
+/** Current settings of a session, outside of React (e.g. when sending a request). */
+export function readAgentSettings(sessionId: string): AgentSettings {
+    return parseSettings(readStored(keyOf(sessionId)));
+}
+
+/** Stores `settings` for a session; an empty object clears the overrides. */
+export function saveAgentSettings(sessionId: string, settings: AgentSettings) {
+    // Unset fields are dropped so "use the default" isn't stored as a value
+    const compact = Object.fromEntries(Object.entries(settings).filter(([, v]) => v !== undefined && v !== ""));
+    writeStored(keyOf(sessionId), Object.keys(compact).length > 0 ? JSON.stringify(compact) : null);
+}
+
+/**
+ * Agent settings persisted per session in localStorage and sent with every
+ * chat request. An empty `sessionId` is the welcome screen's "new chat",
+ * whose settings move to the session once it's created.
+ */
+export function useAgentSettings(sessionId: string) {
+    const settings = useStoredValue(keyOf(sessionId), parseSettings);
+
+    const setSettings = useCallback(
+        (next: AgentSettings) => saveAgentSettings(sessionId, next),
+        [sessionId],
+    );
+
+    return [settings, setSettings] as const;
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import type { Attachment } from "@/services/api";
+import type { ToolStep } from "@/services/tool-steps";
+
+export interface Message {
+    role: "human" | "ai" | "tool";
+    content: string;
+    stopped?: boolean; // AI reply cut short by the user
+    interrupted?: boolean; // AI reply cut short by a dropped connection that couldn't be resumed
+    toolSteps?: ToolStep[]; // Tools the agent ran while producing an AI reply
+    attachments?: Attachment[]; // Files sent with a human message
+}
+
+export interface MessageNode extends Message {
+    id: string;
+    parentId: string | null;
+}
+
+export interface SiblingInfo {
+    index: number; // 0-based position among siblings
+    count: number;
+}
+
+/**
+ * Conversation as a tree: regenerating or editing a message adds a sibling
+ * node instead of overwriting it, so every alternative branch is kept.
+ * `selected` records which child is shown under each parent; the visible
+ * conversation is the path obtained by following it from the root.
+ */
+interface ConversationTree {
+    nodes: Record<string, MessageNode>;
+    children: Record<string, string[]>; // parent id (ROOT for top level) → child ids, oldest first
+    selected: Record<string, string>;   // parent id → active child id
+}
+
+const ROOT = "__root__";
+
+const EMPTY_TREE: ConversationTree = { nodes: {}, children: {}, selected: {} };
+
+function buildLinearTree(messages: Message[]): ConversationTree {
+    const tree: ConversationTree = { nodes: {}, children: {}, selected: {} };
+    let parentId: string | null = null;
+    for (const message of messages) {
+        const id = uuidv4();
+        const key = parentId ?? ROOT;
+        tree.nodes[id] = { ...message, id, parentId };
+        tree.children[key] = [id];
+        tree.selected[key] = id;
+        parentId = id;
+    }
+    return tree;
+}
+
+function activePath(tree: ConversationTree): MessageNode[] {
+    const path: MessageNode[] = [];
+    let id = tree.selected[ROOT];
+    while (id) {
+        path.push(tree.nodes[id]);
+        id = tree.selected[id];
+    }
+    return path;
+}
+
+export function useConversationTree() {
+    const [tree, setTree] = useState<ConversationTree>(EMPTY_TREE);
+
+    const thread = useMemo(() => activePath(tree), [tree]);
+
+    /**
+     * Replace the whole conversation with a linear list (e.g. loaded history).
+     * Returns the id of the last message, or null when empty.
+     */
+    const reset = useCallback((messages: Message[]) => {
+        const next = buildLinearTree(messages);
+        setTree(next);
+        return activePath(next).at(-1)?.id ?? null;
+    }, []);
+
+    /**
+     * Insert older messages (e.g. a previous history page) above the current
+     * top of the conversation, keeping every branch below intact.
+     */
+    const prepend = useCallback((messages: Message[]) => {
+        if (messages.length === 0) return;
+        setTree((prev) => {
+            const older = buildLinearTree(messages);
+            const joinId = activePath(older).at(-1)!.id;
+            const topIds = prev.children[ROOT] ?? [];
+            const nodes = { ...prev.nodes, ...older.nodes };
+            for (const id of topIds) nodes[id] = { ...nodes[id], parentId: joinId };
+            return {
+                nodes,
+                children: { ...prev.children, ...older.children, ...(topIds.length > 0 && { [joinId]: topIds }) },
+                selected: { ...prev.selected, ...older.selected, ...(prev.selected[ROOT] && { [joinId]: prev.selected[ROOT] }) },
+            };
+        });
+    }, []);
+
+    /** Add `message` under `parentId` (null = top level), select it and return its id. */
+    const append = useCallback((parentId: string | null, message: Message) => {
+        const id = uuidv4();
+        const key = parentId ?? ROOT;
+        setTree((prev) => ({
+            nodes: { ...prev.nodes, [id]: { ...message, id, parentId } },
+            children: { ...prev.children, [key]: [...(prev.children[key] ?? []), id] },
+            selected: { ...prev.selected, [key]: id },
+        }));
+        return id;
+    }, []);
+
+    /**
+     * Drop a leaf message, e.g. a human turn that never reached the backend.
+     * Its parent falls back to showing the newest remaining child.
+     */
+    const remove = useCallback((nodeId: string) => {
+        setTree((prev) => {
+            const node = prev.nodes[nodeId];
+            if (!node || prev.children[nodeId]?.length) return prev;
+            const key = node.parentId ?? ROOT;
+            const siblings = (prev.children[key] ?? []).filter((id) => id !== nodeId);
+            const nodes = { ...prev.nodes };
+            delete nodes[nodeId];
+            const selected = { ...prev.selected };
+            delete selected[key];
+            return {
+                nodes,
+                children: { ...prev.children, [key]: siblings },
+                selected: siblings.length > 0 ? { ...selected, [key]: siblings.at(-1)! } : selected,
+            };
+        });
+    }, []);
+
+    /** Show the previous (-1) or next (+1) sibling version of a message. */
+    const switchSibling = useCallback((nodeId: string, direction: -1 | 1) => {
+        setTree((prev) => {
+            const node = prev.nodes[nodeId];
+            if (!node) return prev;
+            const key = node.parentId ?? ROOT;
+            const siblings = prev.children[key] ?? [];
+            const target = siblings[siblings.indexOf(nodeId) + direction];
+            if (!target) return prev;
+            return { ...prev, selected: { ...prev.selected, [key]: target } };
+        });
+    }, []);
+
+    const siblingInfo = useCallback((nodeId: string): SiblingInfo => {
+        const node = tree.nodes[nodeId];
+        const siblings = node ? tree.children[node.parentId ?? ROOT] ?? [] : [];
+        return { index: siblings.indexOf(nodeId), count: siblings.length };
+    }, [tree]);
+
+    /** Messages from the root down to and including `nodeId` (empty for null). */
+    const pathTo = useCallback((nodeId: string | null): MessageNode[] => {
+        const path: MessageNode[] = [];
+        let id = nodeId;
+        while (id) {
+            const node: MessageNode = tree.nodes[id];
+            path.unshift(node);
+            id = node.parentId;
+        }
+        return path;
+    }, [tree]);
+
+    return { thread, reset, prepend, append, remove, switchSibling, siblingInfo, pathTo };
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useCallback } from "react";
+import { useStoredValue, writeStored } from "@/hooks/use-stored-value";
+
+const DRAFT_KEY_PREFIX = "agent-core:draft:";
+
+const parseDraft = (raw: string | null) => raw ?? "";
+
+/**
+ * Composer text persisted per session in localStorage, so switching sessions
+ * in the sidebar keeps half-written messages. An empty `sessionId` is the
+ * welcome screen's "new chat" draft.
+ */
+export function useDraft(sessionId: string) {
+    const key = `${DRAFT_KEY_PREFIX}${sessionId || "new"}`;
+    const draft = useStoredValue(key, parseDraft);
+
+    const setDraft = useCallback((value: string) => writeStored(key, value || null), [key]);
+
+    return [draft, setDraft] as const;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useStoredValue, writeStored } from "@/hooks/use-stored-value";
+
+const FOLDERS_KEY = "agent-core:folders";
+
+function parseFolders(raw: string | null): string[] {
+    try {
+        const parsed: unknown = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter((f) => typeof f === "string") : [];
+    } catch {
+        return [];
+    }
+}
+
+const writeFolders = (folders: string[]) => writeStored(FOLDERS_KEY, JSON.stringify(folders));
+
+/**
+ * Folder names for grouping sessions. A session's folder is stored on the
+ * session itself (PATCH /sessions/:id); this list only remembers folders the
+ * user created locally so they show up before anything is dropped into them.
+ */
+export function useFolders(sessionFolders: (string | null | undefined)[]) {
+    const localFolders = useStoredValue(FOLDERS_KEY, parseFolders);
+
+    const folderKey = sessionFolders.filter(Boolean).join("\n");
+    const folders = useMemo(() => {
+        const fromSessions = folderKey ? folderKey.split("\n") : [];
+        return [...new Set([...localFolders, ...fromSessions])].sort((a, b) => a.localeCompare(b));
+    }, [localFolders, folderKey]);
+
+    const createFolder = useCallback((name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed || localFolders.includes(trimmed)) return;
+        writeFolders([...localFolders, trimmed]);
+    }, [localFolders]);
+
+    const removeFolder = useCallback((name: string) => {
+        writeFolders(localFolders.filter((f) => f !== name));
+    }, [localFolders]);
+
+    return { folders, createFolder, removeFolder };
+}
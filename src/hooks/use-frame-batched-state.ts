@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * useState variant for high-frequency updates (e.g. streamed tokens).
+ * `schedule` coalesces every call made within one animation frame into a
+ * single render; `set` applies a value immediately and drops anything pending.
+ */
+export function useFrameBatchedState<T>(initial: T) {
+    const [value, setValue] = useState<T>(initial);
+    const pending = useRef<T>(initial);
+    const frame = useRef<number | null>(null);
+
+    const schedule = useCallback((next: T) => {
+        pending.current = next;
+        if (frame.current !== null) return;
+        frame.current = requestAnimationFrame(() => {
+            frame.current = null;
+            setValue(pending.current);
+        });
+    }, []);
+
+    const set = useCallback((next: T) => {
+        if (frame.current !== null) {
+            cancelAnimationFrame(frame.current);
+            frame.current = null;
+        }
+        pending.current = next;
+        setValue(next);
+    }, []);
+
+    useEffect(() => () => {
+        if (frame.current !== null) cancelAnimationFrame(frame.current);
+    }, []);
+
+    return [value, schedule, set] as const;
+}
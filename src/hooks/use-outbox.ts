@@ -0,0 +1,88 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { v4 as uuidv4 } from "uuid";
+import type { Attachment } from "@/services/api";
+import { deleteOutboxEntry, readOutbox, saveOutboxEntry, type OutboxEntry } from "@/services/outbox";
+
+// Module-level cache of the IndexedDB outbox so every component sees the same queue
+let entries: OutboxEntry[] = [];
+let hydrated = false;
+const listeners = new Set<() => void>();
+const EMPTY: OutboxEntry[] = [];
+
+function emit() {
+    listeners.forEach((listener) => listener());
+}
+
+async function hydrate() {
+    hydrated = true;
+    try {
+        const stored = await readOutbox();
+        const known = new Set(entries.map((e) => e.id));
+        // A "sending" entry outlived the page that was sending it — queue it again
+        const restored = stored
+            .filter((e) => !known.has(e.id))
+            .map((e) => (e.status === "sending" ? { ...e, status: "pending" as const } : e));
+        entries = [...restored, ...entries].sort((a, b) => a.createdAt - b.createdAt);
+        emit();
+    } catch (error) {
+        console.warn("Outbox storage unavailable — queued messages last until reload", error);
+    }
+}
+
+function subscribe(onChange: () => void) {
+    listeners.add(onChange);
+    if (!hydrated) hydrate();
+    return () => { listeners.delete(onChange); };
+}
+
+function persist(entry: OutboxEntry) {
+    saveOutboxEntry(entry).catch((error) => console.warn("Failed to persist outbox entry", error));
+}
+
+/** Current queue, for async loops that must see entries added after they started. */
+export function getQueuedMessages(): readonly OutboxEntry[] {
+    return entries;
+}
+
+export function enqueueMessage(sessionId: string, content: string, attachments?: Attachment[], opensSession = false): OutboxEntry {
+    const entry: OutboxEntry = {
+        id: uuidv4(),
+        sessionId,
+        content,
+        ...(attachments?.length && { attachments }),
+        ...(opensSession && { opensSession }),
+        createdAt: Date.now(),
+        status: "pending",
+    };
+    entries = [...entries, entry];
+    persist(entry);
+    emit();
+    return entry;
+}
+
+export function updateQueuedMessage(id: string, update: Partial<Pick<OutboxEntry, "status" | "error">>) {
+    const current = entries.find((e) => e.id === id);
+    if (!current) return;
+    const next: OutboxEntry = { ...current, ...update };
+    if (next.status !== "failed") delete next.error;
+    entries = entries.map((e) => (e.id === id ? next : e));
+    persist(next);
+    emit();
+}
+
+export function removeQueuedMessage(id: string) {
+    entries = entries.filter((e) => e.id !== id);
+    deleteOutboxEntry(id).catch((error) => console.warn("Failed to delete outbox entry", error));
+    emit();
+}
+
+/**
+ * Messages queued while the backend was offline, oldest first. The queue is
+ * kept in IndexedDB so it survives reloads; the chat page sends it in order
+ * once the backend is back.
+ */
+export function useOutbox() {
+    return useSyncExternalStore(subscribe, () => entries, () => EMPTY);
+}
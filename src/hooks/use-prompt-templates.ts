@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { readStored, useStoredValue, writeStored } from "@/hooks/use-stored-value";
+import { deleteTemplate, listTemplates, saveTemplate, type PromptTemplate } from "@/services/api";
+import { isNotFound } from "@/services/errors";
+import { DEFAULT_TEMPLATES, changedAt, mergeTemplates, type StoredTemplate } from "@/services/templates";
+
+const TEMPLATES_KEY = "agent-core:templates";
+const SYNCED_IDS_KEY = "agent-core:templates-synced"; // Ids the backend had at the last sync
+
+// Backend sync runs once per page load; "unsupported" once the backend has no template store
+let syncState: "idle" | "syncing" | "done" | "unsupported" = "idle";
+let resyncNeeded = false; // Edited while a sync was running
+
+function parseTemplates(raw: string | null): StoredTemplate[] {
+    if (!raw) return DEFAULT_TEMPLATES; // Never edited — start from the built-in library
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        return Array.isArray(parsed)
+            ? parsed.filter((t): t is StoredTemplate => typeof t?.id === "string" && typeof t?.command === "string" && typeof t?.body === "string")
+            : DEFAULT_TEMPLATES;
+    } catch {
+        return DEFAULT_TEMPLATES;
+    }
+}
+
+const readTemplates = () => parseTemplates(readStored(TEMPLATES_KEY));
+
+const writeTemplates = (templates: StoredTemplate[]) => writeStored(TEMPLATES_KEY, JSON.stringify(templates));
+
+function readSyncedIds(): Set<string> {
+    try {
+        const parsed: unknown = JSON.parse(readStored(SYNCED_IDS_KEY) ?? "[]");
+        return new Set(Array.isArray(parsed) ? parsed.filter((id) => typeof id === "string") : []);
+    } catch {
+        return new Set();
+    }
+}
+
+function updateSyncedIds(update: (ids: Set<string>) => void) {
+    const ids = readSyncedIds();
+    update(ids);
+    writeStored(SYNCED_IDS_KEY, JSON.stringify([...ids]));
+}
+
+// The library as shown: tombstones are only kept for syncing
+const parseVisible = (raw: string | null): PromptTemplate[] => parseTemplates(raw).filter((t) => !t.deleted_at);
+
+/** Deletes the backend copy, then the tombstone; a failure leaves the tombstone for the next sync. */
+async function pushDelete(id: string) {
+    try {
+        await deleteTemplate(id);
+    } catch (error) {
+        if (!isNotFound(error)) throw error; // Already gone is as good as deleted
+    }
+    writeTemplates(readTemplates().filter((t) => t.id !== id || !t.deleted_at));
+    updateSyncedIds((ids) => ids.delete(id));
+}
+
+async function pushSave(template: PromptTemplate) {
+    await saveTemplate(template);
+    updateSyncedIds((ids) => ids.add(template.id));
+}
+
+/**
+ * Best-effort write-through once the first sync is done. Changes made before
+ * that (or while it runs) are picked up by another sync pass instead; the
+ * local copy stays authoritative either way.
+ */
+function pushToBackend(action: () => Promise<void>) {
+    if (syncState === "syncing") resyncNeeded = true;
+    if (syncState !== "done") return;
+    action().catch((error) => console.warn("Template sync failed", error));
+}
+
+async function syncWithBackend() {
+    if (syncState !== "idle") return;
+    syncState = "syncing";
+    resyncNeeded = false;
+    try {
+        const remote = await listTemplates();
+        // A library never edited here takes the backend's as is, rather than re-adding defaults deleted there
+        const local = readStored(TEMPLATES_KEY) === null && remote.length > 0 ? [] : readTemplates();
+        const merged = mergeTemplates(local, remote, readSyncedIds());
+        writeTemplates(merged);
+        writeStored(SYNCED_IDS_KEY, JSON.stringify(remote.map((t) => t.id)));
+        // Upload what is new here or newer than the backend's copy, and delete what was removed here
+        const remoteById = new Map(remote.map((t) => [t.id, t]));
+        const isOutdated = (t: StoredTemplate) => {
+            const theirs = remoteById.get(t.id);
+            return !theirs || Date.parse(theirs.updated_at) < changedAt(t);
+        };
+        await Promise.all(merged.filter(isOutdated).map((t) => (t.deleted_at ? pushDelete(t.id) : pushSave(t))));
+        syncState = "done";
+    } catch (error) {
+        if (isNotFound(error)) {
+            syncState = "unsupported";
+            writeTemplates(readTemplates().filter((t) => !t.deleted_at)); // Local-only library: nothing to sync a delete to
+        } else {
+            syncState = "idle"; // Try again on the next mount
+            console.warn("Template sync failed", error);
+        }
+        return;
+    }
+    if (resyncNeeded) {
+        syncState = "idle"; // Edited mid-sync — one more pass uploads those changes
+        await syncWithBackend();
+    }
+}
+
+/**
+ * The prompt template library, kept in localStorage and synced with the
+ * backend's /templates store when there is one.
+ */
+export function usePromptTemplates() {
+    const templates = useStoredValue(TEMPLATES_KEY, parseVisible);
+
+    useEffect(() => {
+        void syncWithBackend();
+    }, []);
+
+    /** Adds `template`, or replaces the one with the same id. */
+    const upsertTemplate = useCallback((template: Omit<PromptTemplate, "updated_at">) => {
+        const saved = { ...template, updated_at: new Date().toISOString() };
+        const current = readTemplates();
+        const exists = current.some((t) => t.id === saved.id);
+        writeTemplates(exists ? current.map((t) => (t.id === saved.id ? saved : t)) : [...current, saved]);
+        pushToBackend(() => pushSave(saved));
+    }, []);
+
+    const removeTemplate = useCallback((id: string) => {
+        const deletedAt = new Date().toISOString();
+        if (syncState === "unsupported") {
+            writeTemplates(readTemplates().filter((t) => t.id !== id));
+            return;
+        }
+        writeTemplates(readTemplates().map((t) => (t.id === id ? { ...t, deleted_at: deletedAt } : t)));
+        pushToBackend(() => pushDelete(id));
+    }, []);
+
+    return { templates, upsertTemplate, removeTemplate };
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { SearchHit, Session } from "@/services/api";
+import { searchConversations, titleMatches } from "@/services/search";
+
+const MIN_CONTENT_QUERY_LENGTH = 2;
+const CONTENT_SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Title filtering is instant; message-content search is debounced and runs
+ * against the backend (or the client-side fallback).
+ */
+export function useSessionSearch(query: string, sessions: Session[]) {
+    const trimmed = query.trim();
+    const titleResults = useMemo(() => titleMatches(sessions, trimmed), [sessions, trimmed]);
+    const [content, setContent] = useState<{ query: string; hits: SearchHit[] } | null>(null);
+    const searchContent = trimmed.length >= MIN_CONTENT_QUERY_LENGTH;
+
+    useEffect(() => {
+        if (!searchContent) return;
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const hits = await searchConversations(trimmed, sessions, controller.signal);
+                setContent({ query: trimmed, hits });
+            } catch (error) {
+                if (controller.signal.aborted) return;
+                console.error("Message search failed", error);
+                setContent({ query: trimmed, hits: [] });
+            }
+        }, CONTENT_SEARCH_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [searchContent, trimmed, sessions]);
+
+    const isCurrent = searchContent && content?.query === trimmed;
+    return {
+        titleResults,
+        contentHits: isCurrent ? content.hits : [],
+        isSearchingContent: searchContent && !isCurrent,
+    };
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+
+const STORAGE_EVENT = "agent-core:storage-changed";
+
+// Fallback when localStorage is unavailable (private mode, quota) — values then last until reload
+const memoryValues = new Map<string, string>();
+
+function subscribe(onChange: () => void) {
+    window.addEventListener("storage", onChange);     // Other tabs
+    window.addEventListener(STORAGE_EVENT, onChange); // This tab
+    return () => {
+        window.removeEventListener("storage", onChange);
+        window.removeEventListener(STORAGE_EVENT, onChange);
+    };
+}
+
+/** Raw value stored under `key`, or null; usable outside React. */
+export function readStored(key: string): string | null {
+    try {
+        return localStorage.getItem(key) ?? memoryValues.get(key) ?? null;
+    } catch {
+        return memoryValues.get(key) ?? null;
+    }
+}
+
+/** Stores `raw` under `key` (null removes it) and re-renders every hook reading it. */
+export function writeStored(key: string, raw: string | null) {
+    try {
+        if (raw !== null) localStorage.setItem(key, raw);
+        else localStorage.removeItem(key);
+        memoryValues.delete(key);
+    } catch {
+        if (raw !== null) memoryValues.set(key, raw);
+        else memoryValues.delete(key);
+        // Quota hit: drop the stored copy so an older value can't shadow memoryValues
+        try {
+            localStorage.removeItem(key);
+        } catch {
+            // Storage unavailable altogether
+        }
+    }
+    window.dispatchEvent(new Event(STORAGE_EVENT));
+}
+
+/**
+ * The value stored under `key` in localStorage, kept in sync across hooks and
+ * tabs. `parse` turns the raw string (null when unset) into the value; pass a
+ * stable function so the result is only recomputed when the value changes.
+ */
+export function useStoredValue<T>(key: string, parse: (raw: string | null) => T): T {
+    const raw = useSyncExternalStore(subscribe, () => readStored(key), () => null);
+    return useMemo(() => parse(raw), [raw, parse]);
+}
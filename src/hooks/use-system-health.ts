@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { SystemStatus } from "@/context/system-status-context";
+import {
+    checkServices,
+    failingServices,
+    getHealthEndpoints,
+    nextPollDelay,
+    systemStatusOf,
+    type ServiceHealth,
+} from "@/services/health";
+
+const ACTIVITY_DEBOUNCE_MS = 5_000; // Clicks trigger a check at most this often
+
+/**
+ * Polls the configured health endpoints: every POLL_INTERVAL_MS while up,
+ * backing off exponentially while offline. Clicks, returning to the tab and
+ * the browser going back online trigger an early check. `onRecover` runs
+ * when the system comes back from offline.
+ */
+export function useSystemHealth(onRecover: () => void) {
+    const [services, setServices] = useState<ServiceHealth[]>([]);
+    const [status, setStatus] = useState<SystemStatus>("checking");
+    const onRecoverRef = useRef(onRecover);
+
+    useEffect(() => {
+        onRecoverRef.current = onRecover;
+    }, [onRecover]);
+
+    useEffect(() => {
+        let disposed = false;
+        let inFlight = false;
+        let history: ServiceHealth[] = [];
+        let previous: SystemStatus = "checking";
+        let offlineStreak = 0;
+        let pollTimer: ReturnType<typeof setTimeout> | null = null;
+        let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const check = async () => {
+            if (inFlight || disposed) return;
+            inFlight = true;
+            if (pollTimer) clearTimeout(pollTimer);
+            try {
+                history = await checkServices(getHealthEndpoints(), history);
+            } finally {
+                inFlight = false;
+            }
+            if (disposed) return;
+
+            const next = systemStatusOf(history);
+            offlineStreak = next === "offline" ? offlineStreak + 1 : 0;
+            setServices(history);
+            setStatus(next);
+            if (previous === "offline" && next !== "offline") onRecoverRef.current();
+            previous = next;
+            // Hidden tabs don't poll; becoming visible checks right away
+            if (document.visibilityState === "visible") pollTimer = setTimeout(check, nextPollDelay(next, offlineStreak));
+        };
+
+        const handleUserActivity = () => {
+            if (debounceTimer) return; // already scheduled — ignore
+            debounceTimer = setTimeout(() => {
+                debounceTimer = null;
+                check();
+            }, ACTIVITY_DEBOUNCE_MS);
+        };
+        const handleVisibility = () => {
+            if (document.visibilityState === "visible") check();
+        };
+
+        check();
+        document.addEventListener("click", handleUserActivity);
+        document.addEventListener("visibilitychange", handleVisibility);
+        window.addEventListener("online", check);
+        return () => {
+            disposed = true;
+            document.removeEventListener("click", handleUserActivity);
+            document.removeEventListener("visibilitychange", handleVisibility);
+            window.removeEventListener("online", check);
+            if (pollTimer) clearTimeout(pollTimer);
+            if (debounceTimer) clearTimeout(debounceTimer);
+        };
+    }, []);
+
+    const failures = useMemo(() => failingServices(services), [services]);
+    return { status, services, failures };
+}
@@ -1,38 +1,472 @@
-export const streamAgentResponse = async (
-    sessionId: string,
-    message: string,
-    onData: (data: { type: string; content: string }) => void,
-) => {
-    const response = await fetch(
-        `http://localhost:8000/api/v1/agent/chat/${sessionId}`,
-        {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ message }),
-        },
-    );
+/**
+ * Typed client for the agent backend.
+ *
+ * This is the only module that talks to the backend directly — components
+ * call the helpers below instead of building URLs or calling fetch themselves.
+ *
+ * Base URL resolution (first match wins):
+ *   1. window.__AGENT_CORE_CONFIG__.apiBaseUrl  (injected at runtime)
+ *   2. NEXT_PUBLIC_API_BASE_URL                 (inlined at build time)
+ *   3. http://localhost:8000
+ */
 
-    if (!response.body) return;
+import { readEventStream } from "@/services/sse";
+
+const DEFAULT_API_BASE_URL = "http://localhost:8000";
+const API_PREFIX = "/api/v1/agent";
+
+declare global {
+    interface Window {
+        __AGENT_CORE_CONFIG__?: { apiBaseUrl?: string; healthEndpoints?: HealthEndpoint[] };
+    }
+}
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+export interface Session {
+    id: string;
+    title: string;
+    created_at?: string; // ISO 8601
+    updated_at?: string; // ISO 8601, last message
+    pinned?: boolean;
+    folder?: string | null;
+    archived?: boolean;
+    /** Set once the user renamed the session; automatic titling leaves it alone */
+    title_edited?: boolean;
+    /** Id of the public read-only snapshot, if the session has been shared */
+    share_id?: string | null;
+}
+
+/**
+ * One page of a cursor-paginated list. Pass `next_cursor` back to get the
+ * following page; null means there is nothing more.
+ */
+export interface Page<T> {
+    items: T[];
+    next_cursor: string | null;
+}
+
+export type PageParams = {
+    cursor?: string | null;
+    limit?: number;
+};
+
+/** Fields of a session the UI can change through PATCH /sessions/:id */
+export type SessionUpdate = Partial<Pick<Session, "title" | "title_edited" | "pinned" | "folder" | "archived">>;
+
+export interface ToolCall {
+    id?: string;
+    name: string;
+    args?: Record<string, unknown>;
+}
+
+export interface Attachment {
+    name: string;
+    mime_type: string;
+    size: number; // bytes
+    /** Base64 file contents — sent on upload, may be omitted in history */
+    data?: string;
+    /** Where the backend serves the stored file — returned in history */
+    url?: string;
+}
+
+export interface HistoryMessage {
+    role: "human" | "ai" | "tool";
+    content: string;
+    /** Human messages: files sent along with the message */
+    attachments?: Attachment[];
+    /** AI messages: tools the model asked to run */
+    tool_calls?: ToolCall[];
+    /** Tool messages: which tool produced this result and for which call */
+    name?: string;
+    tool_call_id?: string;
+}
+
+/**
+ * Per-session overrides of the agent's configuration. Unset fields use the
+ * backend defaults; `tools` limits which tools the agent may call.
+ */
+export interface AgentSettings {
+    model?: string;
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    system_prompt?: string;
+    tools?: string[];
+}
+
+/** What the backend offers for AgentSettings. */
+export interface AgentOptions {
+    models: { id: string; label?: string }[];
+    tools: { name: string; description?: string }[];
+}
+
+export interface ChatRequest {
+    message: string;
+    sessionId: string;
+    /**
+     * Conversation to continue from, oldest first. Sent when the client has
+     * branched away from what the backend last stored (regenerate, edit,
+     * switching versions); the backend replaces its stored history with it.
+     */
+    history?: HistoryMessage[];
+    attachments?: Attachment[];
+    settings?: AgentSettings;
+}
+
+/**
+ * `text` carries the full answer so far and replaces the buffer; `delta`
+ * carries only the newly generated tokens and is appended to it.
+ *
+ * `approval_request` pauses the run before the tool `name` is called with
+ * `args` (`content` may explain why); the stream stays open and the run goes
+ * on once a decision is posted with `submitToolDecision`.
+ */
+export interface AgentStreamEvent {
+    type: "tool" | "text" | "delta" | "approval_request";
+    content: string;
+    // Structured tool fields — older backends send only `content`
+    tool_call_id?: string;
+    name?: string;
+    args?: Record<string, unknown>;
+    status?: "start" | "end" | "error";
+    result?: string;
+    duration_ms?: number;
+}
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+/** A backend dependency checked by the status badge; `path` must answer GET with a 2xx. */
+export interface HealthEndpoint {
+    label: string;
+    path: string;
+    /** The app can't work without it — failing takes the whole system offline. */
+    critical?: boolean;
+}
 
-    while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
+/** Read-only snapshot of a conversation, served at /share/:id */
+export interface SharedConversation {
+    id: string;
+    title: string;
+    created_at?: string; // ISO 8601, when the snapshot was taken
+    messages: HistoryMessage[];
+}
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split("\n\n");
+/**
+ * A reusable prompt. `body` may contain `{{variable}}` placeholders that are
+ * filled in before the prompt is put into the composer.
+ */
+export interface PromptTemplate {
+    id: string;
+    /** Slash command without the slash, e.g. "summarize" for /summarize */
+    command: string;
+    title: string;
+    description?: string;
+    body: string;
+    updated_at: string; // ISO 8601, newest copy wins when syncing
+}
+
+/** The user's answer to an `approval_request`; approving with `args` runs the tool with edited arguments. */
+export type ToolDecision =
+    | { decision: "approve"; args?: Record<string, unknown> }
+    | { decision: "reject"; reason?: string };
+
+export interface SearchHit {
+    session_id: string;
+    title: string;
+    /** Excerpt of the matching message around the match */
+    snippet: string;
+    role?: HistoryMessage["role"];
+}
+
+/**
+ * Every failed request surfaces as an ApiError. `status` is the HTTP status
+ * for non-2xx responses and `null` when the request never got a response
+ * (network failure, CORS, backend down).
+ */
+export class ApiError extends Error {
+    readonly status: number | null;
+    readonly url: string;
+
+    constructor(message: string, status: number | null, url: string) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.url = url;
+    }
+}
+
+/**
+ * The connection dropped after the agent's stream had started. `lastEventId`
+ * is the id of the last event received — pass it to `resumeChatStream`.
+ */
+export class StreamInterruptedError extends Error {
+    readonly lastEventId: string;
+    /** Reconnection delay the server asked for with `retry:`, if any */
+    readonly retryMs?: number;
+
+    constructor(lastEventId: string, retryMs?: number, options?: ErrorOptions) {
+        super("The connection to the agent dropped mid-answer", options);
+        this.name = "StreamInterruptedError";
+        this.lastEventId = lastEventId;
+        this.retryMs = retryMs;
+    }
+}
+
+// ── URL helpers ───────────────────────────────────────────────────────────────
+export function getApiBaseUrl(): string {
+    const runtimeUrl = typeof window !== "undefined"
+        ? window.__AGENT_CORE_CONFIG__?.apiBaseUrl
+        : undefined;
+    const baseUrl = runtimeUrl || process.env.NEXT_PUBLIC_API_BASE_URL || DEFAULT_API_BASE_URL;
+    return baseUrl.replace(/\/+$/, "");
+}
+
+export function apiUrl(path: string): string {
+    return `${getApiBaseUrl()}${API_PREFIX}${path}`;
+}
+
+// ── Core request wrapper ──────────────────────────────────────────────────────
+async function readErrorDetail(response: Response): Promise<string> {
+    try {
+        const body = await response.json();
+        if (typeof body?.detail === "string") return body.detail;
+        if (typeof body?.message === "string") return body.message;
+    } catch {
+        // Non-JSON error body — fall through to the status text
+    }
+    return response.statusText || `Request failed with status ${response.status}`;
+}
+
+async function request(path: string, init?: RequestInit): Promise<Response> {
+    const url = apiUrl(path);
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        // Let aborts propagate untouched so callers can tell them apart
+        if (error instanceof DOMException && error.name === "AbortError") throw error;
+        throw new ApiError("Unable to reach the agent backend", null, url);
+    }
+    if (!response.ok) {
+        throw new ApiError(await readErrorDetail(response), response.status, url);
+    }
+    return response;
+}
+
+async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await request(path, init);
+    return (await response.json()) as T;
+}
+
+/**
+ * GETs a paginated collection; backends without pagination return a bare array.
+ * Extra params (filters) are sent as query parameters when set.
+ */
+async function requestPage<T>(
+    path: string,
+    params: Record<string, string | number | boolean | null | undefined>,
+    init?: RequestInit,
+): Promise<Page<T>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null && value !== "") query.set(key, String(value));
+    }
+    const qs = query.toString();
+    const data = await requestJson<T[] | Page<T>>(qs ? `${path}?${qs}` : path, init);
+    return Array.isArray(data) ? { items: data, next_cursor: null } : data;
+}
 
-        lines.forEach((line) => {
-            if (line.startsWith("data: ")) {
-                try {
-                    const parsed = JSON.parse(line.replace("data: ", ""));
-                    onData(parsed);
-                } catch (e) {
-                    console.error("Error parsing SSE chunk", e);
-                }
+// ── Sessions ──────────────────────────────────────────────────────────────────
+/** Sessions, most recently active first. `archived: true` lists the archive instead. */
+export const listSessions = (params: PageParams & { archived?: boolean } = {}) =>
+    requestPage<Session>("/sessions", params);
+
+export const fetchSession = (id: string) =>
+    requestJson<Session>(`/sessions/${encodeURIComponent(id)}`);
+
+export const updateSession = async (id: string, update: SessionUpdate) => {
+    await request(`/sessions/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+    });
+};
+
+/** `keepalive` lets the request outlive the page, e.g. when sent from `pagehide`. */
+export const deleteSession = async (id: string, { keepalive = false } = {}) => {
+    await request(`/sessions/${encodeURIComponent(id)}`, { method: "DELETE", keepalive });
+};
+
+/** Creates a new session pre-filled with `messages`, e.g. from an exported transcript. */
+export const importSession = (data: { title: string; messages: HistoryMessage[] }) =>
+    requestJson<Session>("/sessions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+    });
+
+/**
+ * Asks the backend to summarise the session's opening exchange into a short
+ * title. Nothing is stored — save it with `updateSession`.
+ */
+export const generateTitle = (sessionId: string) =>
+    requestJson<{ title: string }>(`/sessions/${encodeURIComponent(sessionId)}/title`, { method: "POST" });
+
+// ── Sharing ───────────────────────────────────────────────────────────────────
+/** Snapshots the session's current history under a new public share id. */
+export const createShare = (sessionId: string) =>
+    requestJson<{ id: string }>(`/sessions/${encodeURIComponent(sessionId)}/share`, { method: "POST" });
+
+export const revokeShare = async (shareId: string) => {
+    await request(`/shares/${encodeURIComponent(shareId)}`, { method: "DELETE" });
+};
+
+export const fetchShare = (shareId: string) =>
+    requestJson<SharedConversation>(`/shares/${encodeURIComponent(shareId)}`);
+
+// ── Prompt templates ──────────────────────────────────────────────────────────
+/** The team's shared templates; backends without a template store answer 404. */
+export const listTemplates = () => requestJson<PromptTemplate[]>("/templates");
+
+export const saveTemplate = async (template: PromptTemplate) => {
+    await request(`/templates/${encodeURIComponent(template.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(template),
+    });
+};
+
+export const deleteTemplate = async (id: string) => {
+    await request(`/templates/${encodeURIComponent(id)}`, { method: "DELETE" });
+};
+
+// ── History ───────────────────────────────────────────────────────────────────
+/**
+ * Messages of a session, oldest first. The first page holds the most recent
+ * messages; `next_cursor` pages further back in time.
+ */
+export const fetchHistory = (sessionId: string, params: PageParams = {}) =>
+    requestPage<HistoryMessage>(`/history/${encodeURIComponent(sessionId)}`, params);
+
+// ── Search ────────────────────────────────────────────────────────────────────
+/** Full-text search over message content across all sessions. */
+export const searchMessages = (query: string, signal?: AbortSignal) =>
+    requestJson<SearchHit[]>(`/search?q=${encodeURIComponent(query)}`, { signal });
+
+// ── Chat ──────────────────────────────────────────────────────────────────────
+/**
+ * `eventId` is the SSE id the event carried itself — "" when it had none
+ * (the id a stream last sent is only used to resume it, never per event).
+ */
+export type AgentEventHandler = (event: AgentStreamEvent, eventId: string) => void;
+
+/**
+ * Dispatches the agent events of an SSE response. A read failure other than
+ * an abort becomes a StreamInterruptedError carrying the resume position.
+ */
+async function readAgentEvents(response: Response, onEvent: AgentEventHandler, lastEventId = "") {
+    if (!response.body) return;
+    let retryMs: number | undefined;
+    try {
+        await readEventStream(response.body, ({ event, data, id, hasOwnId, retry }) => {
+            if (id) lastEventId = id;
+            if (retry !== undefined) retryMs = retry;
+            let parsed: Partial<AgentStreamEvent>;
+            try {
+                parsed = JSON.parse(data);
+            } catch (e) {
+                console.error("Error parsing SSE event", e);
+                return;
             }
+            // Payloads normally carry their own `type`; fall back to the SSE event name
+            onEvent({ ...parsed, type: parsed.type ?? event } as AgentStreamEvent, hasOwnId ? id : "");
         });
+    } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") throw error;
+        throw new StreamInterruptedError(lastEventId, retryMs, { cause: error });
+    }
+}
+
+/**
+ * POSTs a chat message and invokes `onEvent` for every SSE event the agent
+ * streams back. Resolves once the stream is closed; rejects with an
+ * AbortError if `signal` fires first, or a StreamInterruptedError if the
+ * connection drops mid-stream.
+ */
+export const streamChat = async (
+    { message, sessionId, history, attachments, settings }: ChatRequest,
+    onEvent: AgentEventHandler,
+    signal?: AbortSignal,
+) => {
+    const response = await request("/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+            message,
+            session_id: sessionId,
+            ...(history && { history }),
+            ...(attachments?.length && { attachments }),
+            ...(settings && Object.keys(settings).length > 0 && { settings }),
+        }),
+        signal,
+    });
+    await readAgentEvents(response, onEvent);
+};
+
+/**
+ * Reattaches to the run in progress for a session after its stream dropped.
+ * The backend replays the events after `lastEventId` and carries on live;
+ * 404/410 mean the run is over or can't be resumed.
+ */
+export const resumeChatStream = async (
+    sessionId: string,
+    lastEventId: string,
+    onEvent: AgentEventHandler,
+    signal?: AbortSignal,
+) => {
+    const response = await request(`/chat/${encodeURIComponent(sessionId)}/stream`, {
+        method: "GET",
+        headers: { "Last-Event-ID": lastEventId },
+        cache: "no-store",
+        signal,
+    });
+    await readAgentEvents(response, onEvent, lastEventId);
+};
+
+/** Resumes a run paused on an `approval_request` for the tool call `toolCallId`. */
+export const submitToolDecision = async (sessionId: string, toolCallId: string, decision: ToolDecision) => {
+    await request(`/chat/${encodeURIComponent(sessionId)}/approvals/${encodeURIComponent(toolCallId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(decision),
+    });
+};
+
+/** Models and tools that can be picked in the agent settings. */
+export const fetchAgentOptions = () => requestJson<AgentOptions>("/options");
+
+/** Asks the backend to stop the run in progress for a session. */
+export const cancelRun = async (sessionId: string) => {
+    await request(`/chat/${encodeURIComponent(sessionId)}/cancel`, { method: "POST" });
+};
+
+// ── Health ────────────────────────────────────────────────────────────────────
+/**
+ * GETs an API path and reports whether it answered with a 2xx within
+ * `timeoutMs`, and how long it took.
+ */
+export const probeEndpoint = async (
+    path: string,
+    timeoutMs: number,
+): Promise<{ ok: boolean; latencyMs: number; error?: string }> => {
+    const started = performance.now();
+    const elapsed = () => Math.round(performance.now() - started);
+    try {
+        await request(path, { method: "GET", cache: "no-store", signal: AbortSignal.timeout(timeoutMs) });
+        return { ok: true, latencyMs: elapsed() };
+    } catch (error) {
+        const latencyMs = elapsed();
+        const message = latencyMs >= timeoutMs
+            ? `No answer within ${timeoutMs / 1000} s`
+            : error instanceof ApiError && error.status !== null ? `HTTP ${error.status}: ${error.message}` : "Unreachable";
+        return { ok: false, latencyMs, error: message };
     }
 };
@@ -0,0 +1,61 @@
+import type { Attachment } from "@/services/api";
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10 MB per file
+
+// MIME types the agent can do something with; anything text-like is accepted too
+const ACCEPTED_TYPES = new Set([
+    "image/png", "image/jpeg", "image/gif", "image/webp",
+    "application/pdf", "application/json",
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+]);
+
+// Browsers report an empty type for some text formats (e.g. .md, .tsv on Windows)
+const TEXT_EXTENSIONS = /\.(txt|md|csv|tsv|json|log|ya?ml|xml|py|js|ts|tsx|sql)$/i;
+
+export const ACCEPT_ATTRIBUTE = [...ACCEPTED_TYPES, "text/*", ".md", ".csv", ".tsv", ".log", ".yaml", ".yml"].join(",");
+
+export function isImageAttachment(attachment: Pick<Attachment, "mime_type">) {
+    return attachment.mime_type.startsWith("image/");
+}
+
+export function formatBytes(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Returns a user-facing reason the file can't be attached, or null if it's fine. */
+export function validateAttachment(file: File): string | null {
+    const typeOk = ACCEPTED_TYPES.has(file.type) || file.type.startsWith("text/") || TEXT_EXTENSIONS.test(file.name);
+    if (!typeOk) return `${file.name}: unsupported file type`;
+    if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name}: larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+    if (file.size === 0) return `${file.name}: file is empty`;
+    return null;
+}
+
+/** Reads a file into a base64 attachment ready to send with a chat message. */
+export function readAttachment(file: File): Promise<Attachment> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            const dataUrl = reader.result as string;
+            resolve({
+                name: file.name,
+                mime_type: file.type || "text/plain",
+                size: file.size,
+                data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+            });
+        };
+        reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+        reader.readAsDataURL(file);
+    });
+}
+
+/** URL an attachment can be displayed or downloaded from. */
+export function attachmentSrc(attachment: Attachment) {
+    if (attachment.url) return attachment.url;
+    if (attachment.data) return `data:${attachment.mime_type};base64,${attachment.data}`;
+    return undefined;
+}
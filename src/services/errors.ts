@@ -0,0 +1,46 @@
+import { ApiError, StreamInterruptedError } from "@/services/api";
+
+export type ErrorKind = "offline" | "not_found" | "auth" | "rate_limited" | "server" | "rejected" | "unknown";
+
+/** What the UI shows for a failure: a short title, a sentence of detail and whether retrying can help. */
+export interface AppError {
+    kind: ErrorKind;
+    title: string;
+    message: string;
+    retryable: boolean;
+    status: number | null;
+}
+
+/** Maps anything thrown by the API client (or elsewhere) onto an AppError. */
+export function toAppError(error: unknown): AppError {
+    if (error instanceof StreamInterruptedError) {
+        return { kind: "offline", title: "Connection lost", message: error.message, retryable: true, status: null };
+    }
+    if (error instanceof ApiError) {
+        const { status, message } = error;
+        if (status === null) {
+            return { kind: "offline", title: "Can't reach the agent", message: "The backend didn't respond — check your connection.", retryable: true, status };
+        }
+        if (status === 404) return { kind: "not_found", title: "Not found", message, retryable: false, status };
+        if (status === 401 || status === 403) return { kind: "auth", title: "Not allowed", message, retryable: false, status };
+        if (status === 429) return { kind: "rate_limited", title: "Too many requests", message, retryable: true, status };
+        if (status >= 500) return { kind: "server", title: "The agent backend failed", message, retryable: true, status };
+        return { kind: "rejected", title: "Request rejected", message, retryable: false, status };
+    }
+    return {
+        kind: "unknown",
+        title: "Something went wrong",
+        message: error instanceof Error ? error.message : String(error),
+        retryable: true,
+        status: null,
+    };
+}
+
+/** One-line description of a failure, for toast descriptions. */
+export function errorMessage(error: unknown) {
+    return toAppError(error).message;
+}
+
+export function isNotFound(error: unknown) {
+    return error instanceof ApiError && error.status === 404;
+}
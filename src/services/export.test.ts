@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { exportSessions } from "@/services/export";
+import type { Session } from "@/services/api";
+
+const session = { id: "s1", title: "Chat", created_at: "2026-01-01T00:00:00Z" } as Session;
+
+function stubHistory(content: string) {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({
+        items: [{ role: "ai", content }],
+        next_cursor: null,
+    })));
+}
+
+describe("exportSessions (html)", () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it("strips javascript: URLs and raw HTML from message markdown", async () => {
+        stubHistory("[click](javascript:alert(1)) ![x](javascript:alert(2)) <img src=x onerror=alert(3)>");
+        const { blob } = await exportSessions([session], "html");
+        const html = await blob.text();
+        expect(html).not.toMatch(/javascript:/i);
+        expect(html).not.toMatch(/onerror/i);
+        expect(html).toContain(">click</a>");
+    });
+
+    it("keeps code language classes", async () => {
+        stubHistory("```ts\nconst a = 1;\n```");
+        const { blob } = await exportSessions([session], "html");
+        expect(await blob.text()).toContain('class="language-ts"');
+    });
+});
@@ -0,0 +1,221 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import { fetchHistory, type HistoryMessage, type Page, type Session } from "@/services/api";
+import { foldToolMessages, type ToolStep } from "@/services/tool-steps";
+import { formatBytes } from "@/services/attachments";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown;charset=utf-8" },
+    json: { label: "JSON transcript", extension: "json", mimeType: "application/json;charset=utf-8" },
+    html: { label: "Printable HTML", extension: "html", mimeType: "text/html;charset=utf-8" },
+};
+
+export const TRANSCRIPT_FORMAT = "agent-core-transcript";
+export const TRANSCRIPT_VERSION = 1;
+
+/**
+ * Structured export of one conversation. `messages` is the stored history
+ * as-is (tool calls and tool results included) so it can be imported back.
+ */
+export interface Transcript {
+    format: typeof TRANSCRIPT_FORMAT;
+    version: typeof TRANSCRIPT_VERSION;
+    exported_at: string; // ISO 8601
+    session: Pick<Session, "id" | "title" | "created_at" | "updated_at">;
+    messages: HistoryMessage[];
+}
+
+const TOOL_RESULT_PREVIEW = 500; // Characters of a tool result kept in Markdown/HTML
+
+/** Every page of a session's history, oldest first. */
+export async function fetchFullHistory(sessionId: string): Promise<HistoryMessage[]> {
+    const pages: HistoryMessage[][] = [];
+    let cursor: string | null = null;
+    do {
+        const page: Page<HistoryMessage> = await fetchHistory(sessionId, { cursor });
+        pages.unshift(page.items); // Each page is older than the previous one
+        cursor = page.next_cursor;
+    } while (cursor);
+    return pages.flat();
+}
+
+function buildTranscript(session: Session, messages: HistoryMessage[], exportedAt: Date): Transcript {
+    return {
+        format: TRANSCRIPT_FORMAT,
+        version: TRANSCRIPT_VERSION,
+        exported_at: exportedAt.toISOString(),
+        session: { id: session.id, title: session.title, created_at: session.created_at, updated_at: session.updated_at },
+        // Inline file contents would bloat the file; the backend URL is kept
+        messages: messages.map((m) => m.attachments
+            ? { ...m, attachments: m.attachments.map((a) => ({ name: a.name, mime_type: a.mime_type, size: a.size, url: a.url })) }
+            : m),
+    };
+}
+
+function truncate(text: string, max: number) {
+    return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function describeStep(step: ToolStep) {
+    const duration = step.durationMs != null ? ` (${(step.durationMs / 1000).toFixed(1)} s)` : "";
+    return `${step.name} — ${step.status === "error" ? "failed" : "done"}${duration}`;
+}
+
+const ROLE_LABELS = { human: "You", ai: "Agent", tool: "Tool" } as const;
+
+// ── Markdown ─────────────────────────────────────────────────────────────────
+function toMarkdown(session: Session, messages: HistoryMessage[], exportedAt: Date) {
+    const lines = [`# ${session.title}`, "", `_Exported ${exportedAt.toLocaleString()}_`, ""];
+    for (const turn of foldToolMessages(messages)) {
+        lines.push("---", "", `**${ROLE_LABELS[turn.role]}**`, "");
+        for (const step of turn.toolSteps ?? []) {
+            lines.push(`- 🔧 \`${describeStep(step)}\``);
+            if (step.args) lines.push(`  - Args: \`${JSON.stringify(step.args)}\``);
+            if (step.result) lines.push(`  - Result: ${truncate(step.result, TOOL_RESULT_PREVIEW).replace(/\s+/g, " ")}`);
+        }
+        if (turn.toolSteps?.length) lines.push("");
+        for (const file of turn.attachments ?? []) {
+            lines.push(`📎 ${file.url ? `[${file.name}](${file.url})` : file.name} (${formatBytes(file.size)})`, "");
+        }
+        if (turn.content) lines.push(turn.content, "");
+    }
+    return lines.join("\n");
+}
+
+// ── Printable HTML ───────────────────────────────────────────────────────────
+// Message markdown is untrusted: strip `javascript:` URLs, event handlers and raw
+// HTML. Code blocks keep their `language-*` class.
+const sanitizeSchema: SanitizeSchema = {
+    ...defaultSchema,
+    attributes: {
+        ...defaultSchema.attributes,
+        code: [...(defaultSchema.attributes?.code ?? []), ["className", /^language-./]],
+    },
+};
+
+const markdownProcessor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype)
+    .use(rehypeSanitize, sanitizeSchema)
+    .use(rehypeStringify);
+
+function escapeHtml(text: string) {
+    return text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+const HTML_STYLES = `
+  body { font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; max-width: 820px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { font-size: 1.6rem; margin-bottom: .25rem; }
+  .meta { color: #656d76; font-size: .85rem; margin-bottom: 2rem; }
+  .message { margin: 1.25rem 0; padding: .75rem 1rem; border-radius: 10px; border: 1px solid #d0d7de; }
+  .message.human { background: #f6f8fa; }
+  .role { font-size: .75rem; font-weight: 600; text-transform: uppercase; letter-spacing: .06em; color: #656d76; }
+  .plain { white-space: pre-wrap; }
+  .tools { font-size: .85rem; color: #57606a; border-left: 3px solid #d0d7de; padding-left: .75rem; margin: .5rem 0; list-style: none; }
+  .tools code { font-size: .8rem; }
+  pre { background: #f6f8fa; padding: .75rem; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #d0d7de; padding: .25rem .5rem; }
+  .conversation + .conversation { break-before: page; }
+  .print { position: fixed; top: 1rem; right: 1rem; }
+  @media print { .print { display: none; } body { margin: 0; max-width: none; } .message { break-inside: avoid; } }
+  @page { margin: 2cm; }
+`;
+
+async function toHtmlSection(session: Session, messages: HistoryMessage[], exportedAt: Date) {
+    const parts = [
+        `<section class="conversation">`,
+        `<h1>${escapeHtml(session.title)}</h1>`,
+        `<p class="meta">Exported ${escapeHtml(exportedAt.toLocaleString())}</p>`,
+    ];
+    for (const turn of foldToolMessages(messages)) {
+        parts.push(`<div class="message ${turn.role}"><div class="role">${ROLE_LABELS[turn.role]}</div>`);
+        if (turn.toolSteps?.length) {
+            parts.push(`<ul class="tools">`);
+            for (const step of turn.toolSteps) {
+                const args = step.args ? ` <code>${escapeHtml(JSON.stringify(step.args))}</code>` : "";
+                const result = step.result ? `<br>${escapeHtml(truncate(step.result, TOOL_RESULT_PREVIEW))}` : "";
+                parts.push(`<li>🔧 ${escapeHtml(describeStep(step))}${args}${result}</li>`);
+            }
+            parts.push(`</ul>`);
+        }
+        for (const file of turn.attachments ?? []) {
+            const name = escapeHtml(file.name);
+            const link = file.url && /^https?:\/\//i.test(file.url) ? `<a href="${escapeHtml(file.url)}">${name}</a>` : name;
+            parts.push(`<p>📎 ${link} (${formatBytes(file.size)})</p>`);
+        }
+        if (turn.content) {
+            // Agent replies are Markdown; human turns are shown verbatim like in the chat
+            parts.push(turn.role === "ai"
+                ? String(await markdownProcessor.process(turn.content))
+                : `<div class="plain">${escapeHtml(turn.content)}</div>`);
+        }
+        parts.push(`</div>`);
+    }
+    parts.push(`</section>`);
+    return parts.join("\n");
+}
+
+function htmlDocument(title: string, body: string) {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+${body}
+</body>
+</html>
+`;
+}
+
+// ── Entry points ─────────────────────────────────────────────────────────────
+function fileSlug(title: string) {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "conversation";
+}
+
+/**
+ * Exports one or more sessions into a single file: transcripts are collected
+ * in a JSON array, Markdown documents are concatenated and HTML sections get
+ * a page break between them.
+ */
+export async function exportSessions(sessions: Session[], format: ExportFormat): Promise<{ blob: Blob; filename: string }> {
+    const exportedAt = new Date();
+    const histories: HistoryMessage[][] = [];
+    for (const session of sessions) histories.push(await fetchFullHistory(session.id)); // One at a time to spare the backend
+
+    let text: string;
+    if (format === "json") {
+        const transcripts = sessions.map((s, i) => buildTranscript(s, histories[i], exportedAt));
+        text = JSON.stringify(transcripts.length === 1 ? transcripts[0] : transcripts, null, 2);
+    } else if (format === "markdown") {
+        text = sessions.map((s, i) => toMarkdown(s, histories[i], exportedAt)).join("\n\n");
+    } else {
+        const sections = await Promise.all(sessions.map((s, i) => toHtmlSection(s, histories[i], exportedAt)));
+        text = htmlDocument(sessions.length === 1 ? sessions[0].title : `${sessions.length} conversations`, sections.join("\n"));
+    }
+
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const name = sessions.length === 1 ? fileSlug(sessions[0].title) : `conversations-${exportedAt.toISOString().slice(0, 10)}`;
+    return { blob: new Blob([text], { type: mimeType }), filename: `${name}.${extension}` };
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
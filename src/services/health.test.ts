@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_HEALTH_ENDPOINTS, getHealthEndpoints, systemStatusOf } from "@/services/health";
+
+describe("getHealthEndpoints", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it("keeps the valid entries of the runtime config", () => {
+        vi.stubGlobal("window", { __AGENT_CORE_CONFIG__: { healthEndpoints: [{ label: "LLM", path: "/health/llm" }, { path: 1 }] } });
+        expect(getHealthEndpoints()).toEqual([{ label: "LLM", path: "/health/llm" }]);
+    });
+
+    it("falls back to the defaults when no runtime entry is valid", () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        vi.stubGlobal("window", { __AGENT_CORE_CONFIG__: { healthEndpoints: [{ name: "LLM" }] } });
+        expect(getHealthEndpoints()).toBe(DEFAULT_HEALTH_ENDPOINTS);
+    });
+
+    it("falls back to the defaults when no env entry is valid", () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        vi.stubEnv("NEXT_PUBLIC_HEALTH_ENDPOINTS", JSON.stringify([{ label: "LLM" }, "bad"]));
+        const endpoints = getHealthEndpoints();
+        expect(endpoints).toBe(DEFAULT_HEALTH_ENDPOINTS);
+        // An empty list would count as online without checking anything
+        expect(systemStatusOf(endpoints.map((e) => ({ ...e, history: [{ at: 0, status: "down", latencyMs: 0 }] }))))
+            .toBe("offline");
+    });
+});
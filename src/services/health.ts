@@ -0,0 +1,97 @@
+import { probeEndpoint, type HealthEndpoint } from "@/services/api";
+import type { SystemStatus } from "@/context/system-status-context";
+
+export const HEALTH_TIMEOUT_MS = 8_000;
+export const SLOW_THRESHOLD_MS = 1_500;  // Answers slower than this count as degraded
+export const HISTORY_LENGTH = 20;        // Checks kept per service for the status popover
+
+export const POLL_INTERVAL_MS = 30_000;  // While online or degraded
+const RETRY_BASE_MS = 2_000;             // Offline: 2 s, 4 s, 8 s, … up to the cap
+const RETRY_MAX_MS = 60_000;
+
+/**
+ * Endpoints to health-check — paths relative to the API base URL. Only the
+ * sessions API is assumed to exist; backends exposing per-dependency probes
+ * (e.g. /health/llm) list them in `window.__AGENT_CORE_CONFIG__.healthEndpoints`
+ * or a JSON array in NEXT_PUBLIC_HEALTH_ENDPOINTS.
+ */
+export const DEFAULT_HEALTH_ENDPOINTS: HealthEndpoint[] = [
+    { label: "Sessions API", path: "/sessions", critical: true },
+];
+
+export type ServiceStatus = "up" | "slow" | "down";
+
+export interface HealthCheck {
+    at: number; // Epoch ms
+    status: ServiceStatus;
+    latencyMs: number;
+    error?: string;
+}
+
+export interface ServiceHealth extends HealthEndpoint {
+    /** Oldest first, at most HISTORY_LENGTH entries. */
+    history: HealthCheck[];
+}
+
+function isHealthEndpoint(value: unknown): value is HealthEndpoint {
+    const v = value as HealthEndpoint;
+    return typeof v === "object" && v !== null && typeof v.label === "string" && typeof v.path === "string";
+}
+
+/** The valid entries of a configured list, or null when none are usable (so the defaults apply). */
+function validEndpoints(list: unknown[], source: string): HealthEndpoint[] | null {
+    const endpoints = list.filter(isHealthEndpoint);
+    if (endpoints.length === 0) console.error(`${source} has no valid health endpoints — using the defaults`);
+    return endpoints.length > 0 ? endpoints : null;
+}
+
+export function getHealthEndpoints(): HealthEndpoint[] {
+    const runtime = typeof window !== "undefined" ? window.__AGENT_CORE_CONFIG__?.healthEndpoints : undefined;
+    if (Array.isArray(runtime) && runtime.length > 0) return validEndpoints(runtime, "__AGENT_CORE_CONFIG__.healthEndpoints") ?? DEFAULT_HEALTH_ENDPOINTS;
+
+    const fromEnv = process.env.NEXT_PUBLIC_HEALTH_ENDPOINTS;
+    if (fromEnv) {
+        try {
+            const parsed: unknown = JSON.parse(fromEnv);
+            if (Array.isArray(parsed) && parsed.length > 0) return validEndpoints(parsed, "NEXT_PUBLIC_HEALTH_ENDPOINTS") ?? DEFAULT_HEALTH_ENDPOINTS;
+        } catch {
+            console.error("NEXT_PUBLIC_HEALTH_ENDPOINTS is not valid JSON — using the defaults");
+        }
+    }
+    return DEFAULT_HEALTH_ENDPOINTS;
+}
+
+/** Probes every endpoint in parallel and appends the results to each service's history. */
+export async function checkServices(endpoints: HealthEndpoint[], previous: ServiceHealth[]): Promise<ServiceHealth[]> {
+    const checks = await Promise.all(endpoints.map(async ({ path }): Promise<HealthCheck> => {
+        const { ok, latencyMs, error } = await probeEndpoint(path, HEALTH_TIMEOUT_MS);
+        const status: ServiceStatus = !ok ? "down" : latencyMs > SLOW_THRESHOLD_MS ? "slow" : "up";
+        return { at: Date.now(), status, latencyMs, ...(error && { error }) };
+    }));
+    return endpoints.map((endpoint, i) => {
+        const history = previous.find((s) => s.path === endpoint.path)?.history ?? [];
+        return { ...endpoint, history: [...history, checks[i]].slice(-HISTORY_LENGTH) };
+    });
+}
+
+/**
+ * Offline when a critical service is down; degraded when anything else is
+ * down or slow.
+ */
+export function systemStatusOf(services: ServiceHealth[]): SystemStatus {
+    const latest = services.map((s) => ({ critical: s.critical, status: s.history.at(-1)?.status }));
+    if (latest.some((s) => s.critical && s.status === "down")) return "offline";
+    if (latest.some((s) => s.status === "down" || s.status === "slow")) return "degraded";
+    return "online";
+}
+
+/** Labels of the services whose latest check failed. */
+export function failingServices(services: ServiceHealth[]): string[] {
+    return services.filter((s) => s.history.at(-1)?.status === "down").map((s) => s.label);
+}
+
+/** Delay before the next poll: steady while up, exponential backoff after consecutive offline checks. */
+export function nextPollDelay(status: SystemStatus, offlineStreak: number): number {
+    if (status !== "offline") return POLL_INTERVAL_MS;
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(offlineStreak - 1, 0), RETRY_MAX_MS);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { TRANSCRIPT_FORMAT, TRANSCRIPT_VERSION } from "@/services/export";
+import { TranscriptError, parseTranscripts } from "@/services/import";
+
+const transcript = (messages: unknown[], extra: Record<string, unknown> = {}) => JSON.stringify({
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exported_at: "2026-01-01T00:00:00.000Z",
+    session: { id: "s1", title: "Trip plans", created_at: "2026-01-01T00:00:00.000Z" },
+    messages,
+    ...extra,
+});
+
+describe("parseTranscripts", () => {
+    it("reads an exported transcript with tool calls and attachments", () => {
+        const text = transcript([
+            { role: "human", content: "Weather?", attachments: [{ name: "a.txt", mime_type: "text/plain", size: 3, data: "eA==" }] },
+            { role: "ai", content: "", tool_calls: [{ id: "c1", name: "weather", args: { city: "Oslo" } }] },
+            { role: "tool", content: "Rain", name: "weather", tool_call_id: "c1" },
+            { role: "ai", content: "It rains." },
+        ]);
+        expect(parseTranscripts(text, "file")).toEqual([{
+            title: "Trip plans",
+            messages: [
+                { role: "human", content: "Weather?", attachments: [{ name: "a.txt", mime_type: "text/plain", size: 3 }] },
+                { role: "ai", content: "", tool_calls: [{ id: "c1", name: "weather", args: { city: "Oslo" } }] },
+                { role: "tool", content: "Rain", name: "weather", tool_call_id: "c1" },
+                { role: "ai", content: "It rains." },
+            ],
+        }]);
+    });
+
+    it("maps an OpenAI-style messages array and drops system prompts", () => {
+        const text = JSON.stringify([
+            { role: "system", content: "Be brief." },
+            { role: "user", content: [{ type: "text", text: "Hi" }, { type: "image_url", image_url: { url: "x" } }] },
+            { role: "assistant", content: null, tool_calls: [{ id: "c1", type: "function", function: { name: "search", arguments: "{\"q\":\"hi\"}" } }] },
+            { role: "tool", content: "found", tool_call_id: "c1" },
+            { role: "assistant", content: "Hello!" },
+        ]);
+        expect(parseTranscripts(text, "chat.json")).toEqual([{
+            title: "chat.json",
+            messages: [
+                { role: "human", content: "Hi" },
+                { role: "ai", content: "", tool_calls: [{ id: "c1", name: "search", args: { q: "hi" } }] },
+                { role: "tool", content: "found", tool_call_id: "c1" },
+                { role: "ai", content: "Hello!" },
+            ],
+        }]);
+    });
+
+    it("rejects an unknown role", () => {
+        const text = transcript([{ role: "human", content: "Hi" }, { role: "narrator", content: "Meanwhile…" }]);
+        expect(() => parseTranscripts(text, "file")).toThrow(TranscriptError);
+        expect(() => parseTranscripts(text, "file")).toThrow('Message 2: unknown role "narrator"');
+    });
+
+    it("rejects a newer transcript version", () => {
+        const text = transcript([{ role: "human", content: "Hi" }], { version: TRANSCRIPT_VERSION + 1 });
+        expect(() => parseTranscripts(text, "file")).toThrow(`Transcript version ${TRANSCRIPT_VERSION + 1} is newer`);
+    });
+});
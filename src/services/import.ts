@@ -0,0 +1,144 @@
+import type { Attachment, HistoryMessage, ToolCall } from "@/services/api";
+import { TRANSCRIPT_FORMAT, TRANSCRIPT_VERSION } from "@/services/export";
+
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+/** A transcript that doesn't match any supported shape; `message` says where. */
+export class TranscriptError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TranscriptError";
+    }
+}
+
+export interface ImportedConversation {
+    title: string;
+    messages: HistoryMessage[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+// OpenAI chat roles → our roles; system/developer prompts have no place in a session
+const OPENAI_ROLES: Record<string, HistoryMessage["role"] | null> = {
+    user: "human",
+    assistant: "ai",
+    tool: "tool",
+    function: "tool",
+    system: null,
+    developer: null,
+};
+
+/** Plain string, or OpenAI content parts of which only the text is kept. */
+function readContent(value: unknown, where: string): string {
+    if (value === undefined || value === null) return "";
+    if (typeof value === "string") return value;
+    if (Array.isArray(value)) {
+        return value
+            .map((part) => (isObject(part) && part.type === "text" && typeof part.text === "string" ? part.text : ""))
+            .filter(Boolean)
+            .join("\n\n");
+    }
+    throw new TranscriptError(`${where}: content must be text`);
+}
+
+function readToolCalls(value: unknown, where: string): ToolCall[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) throw new TranscriptError(`${where}: tool_calls must be a list`);
+    return value.map((call, i) => {
+        if (!isObject(call)) throw new TranscriptError(`${where}: tool call ${i + 1} is not an object`);
+        // OpenAI nests the call under `function` with JSON-encoded arguments
+        const fn = isObject(call.function) ? call.function : call;
+        if (typeof fn.name !== "string" || !fn.name) throw new TranscriptError(`${where}: tool call ${i + 1} has no name`);
+        let args = fn.args ?? fn.arguments;
+        if (typeof args === "string") {
+            try {
+                args = JSON.parse(args);
+            } catch {
+                args = { input: args };
+            }
+        }
+        return {
+            ...(typeof call.id === "string" && { id: call.id }),
+            name: fn.name,
+            ...(isObject(args) && { args }),
+        };
+    });
+}
+
+function readAttachments(value: unknown): Attachment[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const files = value.filter((a): a is Attachment =>
+        isObject(a) && typeof a.name === "string" && typeof a.mime_type === "string" && typeof a.size === "number");
+    return files.length > 0
+        ? files.map(({ name, mime_type, size, url }) => ({ name, mime_type, size, ...(url && { url }) }))
+        : undefined;
+}
+
+function readMessage(raw: unknown, index: number): HistoryMessage | null {
+    const where = `Message ${index + 1}`;
+    if (!isObject(raw)) throw new TranscriptError(`${where}: not an object`);
+    if (typeof raw.role !== "string") throw new TranscriptError(`${where}: missing role`);
+
+    let role: HistoryMessage["role"] | null;
+    if (raw.role === "human" || raw.role === "ai" || raw.role === "tool") role = raw.role;
+    else if (Object.hasOwn(OPENAI_ROLES, raw.role)) role = OPENAI_ROLES[raw.role];
+    else throw new TranscriptError(`${where}: unknown role "${raw.role}" (expected human, ai or tool)`);
+    if (role === null) return null;
+
+    const message: HistoryMessage = { role, content: readContent(raw.content, where) };
+    if (role === "ai") {
+        const toolCalls = readToolCalls(raw.tool_calls, where);
+        if (toolCalls?.length) message.tool_calls = toolCalls;
+    }
+    if (role === "tool") {
+        if (typeof raw.name === "string") message.name = raw.name;
+        if (typeof raw.tool_call_id === "string") message.tool_call_id = raw.tool_call_id;
+    }
+    if (role === "human") {
+        const attachments = readAttachments(raw.attachments);
+        if (attachments) message.attachments = attachments;
+    }
+    if (!message.content && !message.tool_calls && !message.attachments && role !== "tool") return null; // Nothing to show
+    return message;
+}
+
+function readConversation(raw: unknown, fallbackTitle: string): ImportedConversation {
+    let title = fallbackTitle;
+    let list: unknown = raw;
+    if (isObject(raw)) {
+        if (raw.format === TRANSCRIPT_FORMAT && typeof raw.version === "number" && raw.version > TRANSCRIPT_VERSION) {
+            throw new TranscriptError(`Transcript version ${raw.version} is newer than this app supports`);
+        }
+        const session = isObject(raw.session) ? raw.session : raw;
+        if (typeof session.title === "string" && session.title.trim()) title = session.title.trim();
+        list = raw.messages;
+    }
+    if (!Array.isArray(list)) throw new TranscriptError("Expected a transcript or a list of messages");
+
+    const messages = list.map(readMessage).filter((m): m is HistoryMessage => m !== null);
+    if (!messages.some((m) => m.role === "human" || m.role === "ai")) {
+        throw new TranscriptError("The transcript has no human or AI messages");
+    }
+    return { title, messages };
+}
+
+/**
+ * Parses an import file: an exported transcript, a list of them (bulk
+ * export), an OpenAI-style `messages` array or an object wrapping one.
+ * Throws a TranscriptError describing the first problem found.
+ */
+export function parseTranscripts(text: string, fallbackTitle: string): ImportedConversation[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new TranscriptError("The file is not valid JSON");
+    }
+    const isTranscriptList = Array.isArray(data) && data.length > 0 && data.every((d) => isObject(d) && Array.isArray(d.messages));
+    return isTranscriptList
+        ? (data as unknown[]).map((d, i) => readConversation(d, `${fallbackTitle} (${i + 1})`))
+        : [readConversation(data, fallbackTitle)];
+}
@@ -0,0 +1,57 @@
+import type { Attachment } from "@/services/api";
+
+const DB_NAME = "agent-core";
+const DB_VERSION = 1;
+const STORE = "outbox";
+
+/** A message written while the backend was unreachable, waiting to be sent. */
+export interface OutboxEntry {
+    id: string;
+    sessionId: string;
+    content: string;
+    attachments?: Attachment[];
+    createdAt: number; // Epoch ms — entries are sent in this order
+    opensSession?: boolean; // First message of a new session; its reply names the session
+    status: "pending" | "sending" | "failed";
+    error?: string;    // Why the last attempt failed
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE, { keyPath: "id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch((error) => {
+        dbPromise = null; // Let the next call try again
+        throw error;
+    });
+    return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** Every queued message, oldest first. */
+export async function readOutbox(): Promise<OutboxEntry[]> {
+    const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.getAll());
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry) {
+    await withStore("readwrite", (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string) {
+    await withStore("readwrite", (store) => store.delete(id));
+}
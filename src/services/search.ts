@@ -0,0 +1,78 @@
+import { ApiError, fetchHistory, searchMessages, type HistoryMessage, type SearchHit, type Session } from "@/services/api";
+
+const SNIPPET_RADIUS = 40;          // Characters of context on each side of a match
+const FALLBACK_SESSION_LIMIT = 50;  // Histories scanned by the client-side fallback
+const FALLBACK_CONCURRENCY = 4;
+const MAX_HITS_PER_SESSION = 3;
+const MAX_HITS = 30;
+const HISTORY_CACHE_TTL_MS = 60_000;
+
+const historyCache = new Map<string, { fetchedAt: number; messages: HistoryMessage[] }>();
+
+export function titleMatches(sessions: Session[], query: string): Session[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return sessions;
+    return sessions.filter((s) => s.title.toLowerCase().includes(q));
+}
+
+/** Excerpt of `text` centred on the first occurrence of `query`. */
+export function makeSnippet(text: string, query: string): string | null {
+    const index = text.toLowerCase().indexOf(query.toLowerCase());
+    if (index === -1) return null;
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + query.length + SNIPPET_RADIUS);
+    const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+    return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+async function cachedHistory(sessionId: string, signal?: AbortSignal) {
+    const cached = historyCache.get(sessionId);
+    if (cached && Date.now() - cached.fetchedAt < HISTORY_CACHE_TTL_MS) return cached.messages;
+    signal?.throwIfAborted();
+    const { items: messages } = await fetchHistory(sessionId); // Most recent page is enough for the fallback
+    historyCache.set(sessionId, { fetchedAt: Date.now(), messages });
+    return messages;
+}
+
+/** Scans the most recent sessions' histories in the browser. */
+async function searchLocally(query: string, sessions: Session[], signal?: AbortSignal): Promise<SearchHit[]> {
+    const queue = sessions.slice(0, FALLBACK_SESSION_LIMIT);
+    const hitsBySession = new Map<string, SearchHit[]>();
+
+    const worker = async () => {
+        for (let session = queue.shift(); session; session = queue.shift()) {
+            let messages: HistoryMessage[];
+            try {
+                messages = await cachedHistory(session.id, signal);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                continue; // Skip sessions whose history can't be loaded
+            }
+            const hits: SearchHit[] = [];
+            for (const message of messages) {
+                if (message.role === "tool") continue;
+                const snippet = makeSnippet(message.content, query);
+                if (snippet) hits.push({ session_id: session.id, title: session.title, snippet, role: message.role });
+                if (hits.length >= MAX_HITS_PER_SESSION) break;
+            }
+            if (hits.length) hitsBySession.set(session.id, hits);
+        }
+    };
+
+    await Promise.all(Array.from({ length: FALLBACK_CONCURRENCY }, worker));
+    // Keep the sidebar's session order rather than completion order
+    return sessions.flatMap((s) => hitsBySession.get(s.id) ?? []).slice(0, MAX_HITS);
+}
+
+/**
+ * Full-text search over message content. Uses the backend search endpoint
+ * and falls back to scanning histories client-side when it is unavailable.
+ */
+export async function searchConversations(query: string, sessions: Session[], signal?: AbortSignal): Promise<SearchHit[]> {
+    try {
+        return await searchMessages(query, signal);
+    } catch (error) {
+        if (!(error instanceof ApiError)) throw error; // Aborted
+    }
+    return searchLocally(query, sessions, signal);
+}
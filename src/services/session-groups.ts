@@ -0,0 +1,46 @@
+import type { Session } from "@/services/api";
+
+export const DATE_GROUPS = ["Today", "Yesterday", "Previous 7 days", "Older"] as const;
+export type DateGroup = (typeof DATE_GROUPS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function sessionTime(session: Session): number | null {
+    const stamp = session.updated_at ?? session.created_at;
+    const time = stamp ? Date.parse(stamp) : NaN;
+    return Number.isNaN(time) ? null : time;
+}
+
+function dateGroupOf(session: Session, now: Date): DateGroup {
+    const time = sessionTime(session);
+    if (time === null) return "Older";
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    if (time >= startOfToday) return "Today";
+    if (time >= startOfToday - DAY_MS) return "Yesterday";
+    if (time >= startOfToday - 7 * DAY_MS) return "Previous 7 days";
+    return "Older";
+}
+
+/** Most recently active first; sessions without timestamps keep backend order at the end. */
+export function sortByRecency(sessions: Session[]): Session[] {
+    return sessions
+        .map((session, index) => ({ session, index, time: sessionTime(session) }))
+        .sort((a, b) => {
+            if (a.time === null || b.time === null) {
+                return a.time === b.time ? a.index - b.index : a.time === null ? 1 : -1;
+            }
+            return b.time - a.time || a.index - b.index;
+        })
+        .map(({ session }) => session);
+}
+
+/** Buckets sessions under Today / Yesterday / Previous 7 days / Older, dropping empty groups. */
+export function groupByDate(sessions: Session[], now = new Date()): { label: DateGroup; sessions: Session[] }[] {
+    const buckets = new Map<DateGroup, Session[]>(DATE_GROUPS.map((label) => [label, []]));
+    for (const session of sortByRecency(sessions)) {
+        buckets.get(dateGroupOf(session, now))!.push(session);
+    }
+    return DATE_GROUPS
+        .map((label) => ({ label, sessions: buckets.get(label)! }))
+        .filter((group) => group.sessions.length > 0);
+}
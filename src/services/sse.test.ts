@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { createEventStreamParser, readEventStream, type ServerSentEvent } from "@/services/sse";
+
+/** Feeds `chunks` to a fresh parser and returns the events it dispatched. */
+function parse(chunks: string[]) {
+    const events: ServerSentEvent[] = [];
+    const parser = createEventStreamParser((e) => events.push(e));
+    chunks.forEach(parser.push);
+    parser.end();
+    return events;
+}
+
+/** Every way of splitting `text` into two chunks, plus one character per chunk. */
+function splits(text: string): string[][] {
+    const result = [[text], Array.from(text)];
+    for (let i = 1; i < text.length; i++) result.push([text.slice(0, i), text.slice(i)]);
+    return result;
+}
+
+function streamOf(chunks: Uint8Array[]) {
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach((c) => controller.enqueue(c));
+            controller.close();
+        },
+    });
+}
+
+describe("createEventStreamParser", () => {
+    it("dispatches an event on the blank line", () => {
+        expect(parse(["event: tool\ndata: {\"a\":1}\n\n"])).toEqual([
+            { event: "tool", data: "{\"a\":1}", id: "" },
+        ]);
+    });
+
+    it("strips exactly one space after the colon", () => {
+        expect(parse(["data:no-space\n\ndata: one\n\ndata:  two\n\n"]).map((e) => e.data))
+            .toEqual(["no-space", "one", " two"]);
+    });
+
+    it("joins multi-line data with \\n", () => {
+        expect(parse(["data: first\ndata:\ndata: third\n\n"])[0].data).toBe("first\n\nthird");
+    });
+
+    it("ignores comments and unknown fields", () => {
+        expect(parse([": keep-alive\n", "foo: bar\n:\ndata: x\n\n", ": trailing\n\n"])).toEqual([
+            { event: "message", data: "x", id: "" },
+        ]);
+    });
+
+    it("does not dispatch events without data", () => {
+        expect(parse(["event: ping\n\n", "id: 1\n\n"])).toEqual([]);
+    });
+
+    it("keeps the last id across events and reads retry", () => {
+        expect(parse(["id: 7\nretry: 1500\ndata: a\n\ndata: b\n\nid: bad\0id\ndata: c\n\n"])).toEqual([
+            { event: "message", data: "a", id: "7", hasOwnId: true, retry: 1500 },
+            { event: "message", data: "b", id: "7" },
+            { event: "message", data: "c", id: "7" },
+        ]);
+    });
+
+    it("marks only the events that carried an id themselves", () => {
+        expect(parse(["data: a\n\nid: 1\ndata: b\n\ndata: c\n\nid:\ndata: d\n\n"])).toEqual([
+            { event: "message", data: "a", id: "" },
+            { event: "message", data: "b", id: "1", hasOwnId: true },
+            { event: "message", data: "c", id: "1" },
+            { event: "message", data: "d", id: "", hasOwnId: true },
+        ]);
+    });
+
+    it("discards a trailing event without its blank line", () => {
+        expect(parse(["data: done\n\ndata: cut off"])).toEqual([{ event: "message", data: "done", id: "" }]);
+        expect(parse(["data: cut off\n"])).toEqual([]);
+    });
+
+    it.each(["\n", "\r\n", "\r"])("handles %j line endings however the stream is split", (eol) => {
+        const text = `event: text${eol}data: hello${eol}data:world${eol}${eol}: c${eol}data: again${eol}${eol}`;
+        for (const chunks of splits(text)) {
+            expect(parse(chunks), JSON.stringify(chunks)).toEqual([
+                { event: "text", data: "hello\nworld", id: "" },
+                { event: "message", data: "again", id: "" },
+            ]);
+        }
+    });
+
+    it("treats a CRLF split across chunks as one line break", () => {
+        expect(parse(["data: a\r", "\ndata: b\r", "\n\r", "\n"])).toEqual([
+            { event: "message", data: "a\nb", id: "" },
+        ]);
+    });
+});
+
+describe("readEventStream", () => {
+    it("decodes multi-byte UTF-8 split across chunks", async () => {
+        const bytes = new TextEncoder().encode("data: héllo 👋 世界\r\n\r\n");
+        for (let i = 1; i < bytes.length; i++) {
+            const events: ServerSentEvent[] = [];
+            await readEventStream(streamOf([bytes.slice(0, i), bytes.slice(i)]), (e) => events.push(e));
+            expect(events.map((e) => e.data), `split at ${i}`).toEqual(["héllo 👋 世界"]);
+        }
+    });
+
+    it("handles one byte per chunk", async () => {
+        const bytes = new TextEncoder().encode("data: ✓\n\ndata: ok\n\n");
+        const events: ServerSentEvent[] = [];
+        await readEventStream(streamOf(Array.from(bytes, (b) => Uint8Array.of(b))), (e) => events.push(e));
+        expect(events.map((e) => e.data)).toEqual(["✓", "ok"]);
+    });
+
+    it("drops a final event with no terminating newline", async () => {
+        const events: ServerSentEvent[] = [];
+        await readEventStream(streamOf([new TextEncoder().encode("data: 1\n\ndata: 2")]), (e) => events.push(e));
+        expect(events.map((e) => e.data)).toEqual(["1"]);
+    });
+
+    it("cancels the body when reading stops early", async () => {
+        let cancelled = false;
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode("data: 1\n\n"));
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+        const failing = readEventStream(body, () => {
+            throw new Error("handler failed");
+        });
+        await expect(failing).rejects.toThrow("handler failed");
+        expect(cancelled).toBe(true);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Incremental parser for `text/event-stream` bodies, following the WHATWG
+ * "Server-sent events" interpretation rules.
+ *
+ * Network reads do not line up with event boundaries, so the parser keeps
+ * whatever trailing partial line and partially assembled event it has seen
+ * and only dispatches once the blank line that terminates an event arrives.
+ */
+
+export interface ServerSentEvent {
+    /** `event:` field, defaults to "message" */
+    event: string;
+    /** All `data:` lines of the event joined with "\n" */
+    data: string;
+    /** Last `id:` seen on the stream (persists across events, per spec) */
+    id: string;
+    /** Set when this event carried an `id:` field itself rather than inheriting `id` */
+    hasOwnId?: true;
+    /** `retry:` reconnection delay in ms, only set on the event that carried it */
+    retry?: number;
+}
+
+export interface EventStreamParser {
+    /** Feed the next decoded chunk of the stream */
+    push: (chunk: string) => void;
+    /** Signal end of stream; a trailing event without its blank line is discarded */
+    end: () => void;
+}
+
+export function createEventStreamParser(onEvent: (event: ServerSentEvent) => void): EventStreamParser {
+    let buffer = "";
+    let pendingCR = false; // last chunk ended with "\r" — a following "\n" belongs to it
+
+    let eventType = "";
+    let dataLines: string[] = [];
+    let lastEventId = "";
+    let hasOwnId = false;
+    let retry: number | undefined;
+
+    const dispatch = () => {
+        if (dataLines.length > 0) {
+            onEvent({
+                event: eventType || "message",
+                data: dataLines.join("\n"),
+                id: lastEventId,
+                ...(hasOwnId && { hasOwnId: true as const }),
+                ...(retry !== undefined && { retry }),
+            });
+        }
+        eventType = "";
+        dataLines = [];
+        hasOwnId = false;
+        retry = undefined;
+    };
+
+    const processLine = (line: string) => {
+        if (line === "") {
+            dispatch();
+            return;
+        }
+        if (line.startsWith(":")) return; // Comment / keep-alive
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        switch (field) {
+            case "event":
+                eventType = value;
+                break;
+            case "data":
+                dataLines.push(value);
+                break;
+            case "id":
+                if (!value.includes("\0")) {
+                    lastEventId = value;
+                    hasOwnId = true;
+                }
+                break;
+            case "retry":
+                if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+                break;
+            default:
+                // Unknown fields are ignored
+                break;
+        }
+    };
+
+    const push = (chunk: string) => {
+        if (!chunk) return;
+        if (pendingCR) {
+            if (chunk.startsWith("\n")) chunk = chunk.slice(1);
+            pendingCR = false;
+        }
+        buffer += chunk;
+
+        let start = 0;
+        for (let i = 0; i < buffer.length; i++) {
+            const ch = buffer[i];
+            if (ch !== "\n" && ch !== "\r") continue;
+
+            processLine(buffer.slice(start, i));
+
+            if (ch === "\r") {
+                if (i + 1 < buffer.length) {
+                    if (buffer[i + 1] === "\n") i++;
+                } else {
+                    pendingCR = true;
+                }
+            }
+            start = i + 1;
+        }
+        buffer = buffer.slice(start);
+    };
+
+    const end = () => {
+        buffer = "";
+        pendingCR = false;
+        eventType = "";
+        dataLines = [];
+        hasOwnId = false;
+        retry = undefined;
+    };
+
+    return { push, end };
+}
+
+/**
+ * Reads a fetch body to completion, decoding UTF-8 across chunk boundaries
+ * and invoking `onEvent` for every complete event.
+ */
+export async function readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: ServerSentEvent) => void,
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = createEventStreamParser(onEvent);
+
+    let finished = false;
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            parser.push(decoder.decode(value, { stream: true }));
+        }
+        finished = true;
+        parser.push(decoder.decode());
+    } finally {
+        parser.end();
+        // Left early (read error, abort, throwing handler): close the connection rather than leave it open
+        if (!finished) await reader.cancel().catch(() => {});
+        reader.releaseLock();
+    }
+}
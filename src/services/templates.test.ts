@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { fillTemplate, mergeTemplates, templateVariables, type StoredTemplate } from "@/services/templates";
+import type { PromptTemplate } from "@/services/api";
+
+const template = (id: string, updated_at: string, body = "x"): PromptTemplate =>
+    ({ id, command: id, title: id, body, updated_at });
+
+describe("mergeTemplates", () => {
+    it("keeps the copy that changed last", () => {
+        const local = [template("a", "2026-01-02T00:00:00Z", "mine"), template("b", "2026-01-01T00:00:00Z", "mine")];
+        const remote = [template("a", "2026-01-01T00:00:00Z", "theirs"), template("b", "2026-01-03T00:00:00Z", "theirs"), template("c", "2026-01-01T00:00:00Z")];
+        expect(mergeTemplates(local, remote, new Set(["a", "b"])).map((t) => [t.id, t.body])).toEqual([["a", "mine"], ["b", "theirs"], ["c", "x"]]);
+    });
+
+    it("doesn't bring back a template deleted after the remote copy was saved", () => {
+        const local: StoredTemplate[] = [{ ...template("a", "2026-01-01T00:00:00Z"), deleted_at: "2026-01-05T00:00:00Z" }];
+        const merged = mergeTemplates(local, [template("a", "2026-01-02T00:00:00Z")], new Set(["a"]));
+        expect(merged).toEqual(local);
+    });
+
+    it("restores a deleted template edited elsewhere afterwards", () => {
+        const local: StoredTemplate[] = [{ ...template("a", "2026-01-01T00:00:00Z"), deleted_at: "2026-01-05T00:00:00Z" }];
+        const remote = [template("a", "2026-01-06T00:00:00Z", "edited")];
+        expect(mergeTemplates(local, remote, new Set(["a"]))).toEqual(remote);
+    });
+
+    it("drops templates deleted elsewhere and keeps ones never synced", () => {
+        const local: StoredTemplate[] = [
+            template("synced", "2026-01-01T00:00:00Z"),
+            template("new", "2026-01-02T00:00:00Z"),
+            { ...template("gone", "2026-01-01T00:00:00Z"), deleted_at: "2026-01-03T00:00:00Z" },
+        ];
+        expect(mergeTemplates(local, [], new Set(["synced", "gone"])).map((t) => t.id)).toEqual(["new"]);
+    });
+});
+
+describe("templateVariables / fillTemplate", () => {
+    it("lists each placeholder once and fills them all", () => {
+        const body = "Review {{ language }} code:\n{{code}}\n({{language}})";
+        expect(templateVariables(body)).toEqual(["language", "code"]);
+        expect(fillTemplate(body, { language: "ts", code: "a()" })).toBe("Review ts code:\na()\n(ts)");
+    });
+});
@@ -0,0 +1,106 @@
+import type { PromptTemplate } from "@/services/api";
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Shipped with the app; edited or deleted like any other template. */
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: "builtin-summarize",
+        command: "summarize",
+        title: "Summarize",
+        description: "Condense a text into key points",
+        body: "Summarize the following text in {{length}} bullet points. Keep names, numbers and decisions.\n\n{{text}}",
+        updated_at: "1970-01-01T00:00:00.000Z",
+    },
+    {
+        id: "builtin-review-code",
+        command: "review-code",
+        title: "Review code",
+        description: "Find bugs and suggest improvements",
+        body: "Review this {{language}} code. Point out bugs, security issues and unclear parts, most severe first, and suggest fixes.\n\n```{{language}}\n{{code}}\n```",
+        updated_at: "1970-01-01T00:00:00.000Z",
+    },
+    {
+        id: "builtin-explain",
+        command: "explain",
+        title: "Explain a concept",
+        description: "Plain-language explanation with an example",
+        body: "Explain {{topic}} to someone who knows {{background}}. Use one concrete example.",
+        updated_at: "1970-01-01T00:00:00.000Z",
+    },
+    {
+        id: "builtin-research",
+        command: "research",
+        title: "Research a question",
+        description: "Search the web and cite sources",
+        body: "Research {{question}} on the web. Answer in a short paragraph and list the sources you used.",
+        updated_at: "1970-01-01T00:00:00.000Z",
+    },
+];
+
+/** Distinct `{{variable}}` names of a template body, in order of first use. */
+export function templateVariables(body: string): string[] {
+    return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (m) => m[1]))];
+}
+
+/** Replaces every placeholder with its value; unknown variables become empty. */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+    return body.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? "").trim();
+}
+
+/** "review-code" → "Review code", for variable labels. */
+export function humanizeVariable(name: string) {
+    const words = name.replace(/[_-]+/g, " ").trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Lowercase slug usable as a slash command, e.g. "Review Code!" → "review-code". */
+export function toCommand(text: string) {
+    return text.toLowerCase().trim().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * The partial command while the composer holds only "/…" (no spaces yet),
+ * or null when the slash-command picker shouldn't open.
+ */
+export function slashQuery(input: string): string | null {
+    const match = /^\/([\w-]*)$/.exec(input);
+    return match ? match[1].toLowerCase() : null;
+}
+
+/** Templates whose command or title matches `query`, command prefixes first. */
+export function matchTemplates(templates: PromptTemplate[], query: string): PromptTemplate[] {
+    if (!query) return templates;
+    const prefix = templates.filter((t) => t.command.startsWith(query));
+    const rest = templates.filter((t) => !prefix.includes(t) && (t.command.includes(query) || t.title.toLowerCase().includes(query)));
+    return [...prefix, ...rest];
+}
+
+/**
+ * An entry of the local library. A deleted template stays behind as a
+ * tombstone (`deleted_at` set) until the backend has dropped its copy too, so
+ * syncing can't bring it back.
+ */
+export type StoredTemplate = PromptTemplate & { deleted_at?: string };
+
+/** Epoch ms of the last edit or the deletion. */
+export const changedAt = (t: StoredTemplate) => Date.parse(t.deleted_at ?? t.updated_at);
+
+/**
+ * Combines the local and backend copies of the library: a template present on
+ * both sides keeps whichever changed last. A local deletion beats older remote
+ * copies; a remote edit made after it restores the template. A local template
+ * missing remotely was deleted elsewhere if it is in `syncedIds` (the backend's
+ * ids at the last sync) and is dropped, otherwise it is new and kept.
+ */
+export function mergeTemplates(local: StoredTemplate[], remote: PromptTemplate[], syncedIds: ReadonlySet<string>): StoredTemplate[] {
+    const remoteIds = new Set(remote.map((t) => t.id));
+    // Tombstones only matter while the backend still has the template
+    const kept = local.filter((t) => remoteIds.has(t.id) || (!t.deleted_at && !syncedIds.has(t.id)));
+    const byId = new Map(kept.map((t) => [t.id, t]));
+    for (const template of remote) {
+        const mine = byId.get(template.id);
+        if (!mine || Date.parse(template.updated_at) > changedAt(mine)) byId.set(template.id, template);
+    }
+    return [...byId.values()];
+}
@@ -0,0 +1,29 @@
+export const MAX_TITLE_LENGTH = 48;
+
+// Openers that add nothing to a title ("Hi, can you please …")
+const FILLER = /^(?:(?:hi|hello|hey)\b[\s,!.]*)?(?:(?:can|could|would|will) you\s+)?(?:please\s+)?/i;
+
+/**
+ * Local fallback title built from the first human message: the first line
+ * or sentence without Markdown, cut at a word boundary. Empty when the
+ * message has no usable text.
+ */
+export function titleFromMessage(text: string): string {
+    const plain = text
+        .replace(/```[\s\S]*?(```|$)/g, " ")       // Code blocks
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1") // Links and images keep their label
+        .replace(/[#>*_`~|]/g, " ")
+        .trim();
+    const firstLine = plain.split(/\n/).find((line) => line.trim()) ?? "";
+    const sentence = firstLine.split(/(?<=[.!?])\s/)[0].replace(/\s+/g, " ").trim();
+    const words = sentence.replace(FILLER, "").replace(/[\s.!?,;:]+$/, "");
+    if (!words) return "";
+
+    let title = words;
+    if (title.length > MAX_TITLE_LENGTH) {
+        const cut = title.slice(0, MAX_TITLE_LENGTH);
+        const lastSpace = cut.lastIndexOf(" ");
+        title = `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:]+$/, "")}…`;
+    }
+    return title.charAt(0).toUpperCase() + title.slice(1);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { foldToolMessages, unfoldToolMessages } from "@/services/tool-steps";
+import type { HistoryMessage } from "@/services/api";
+
+describe("unfoldToolMessages", () => {
+    it("restores the tool calls and results folded into an AI turn", () => {
+        const history: HistoryMessage[] = [
+            { role: "human", content: "Weather?", attachments: [{ name: "a.txt", mime_type: "text/plain", size: 1, url: "/files/a" }] },
+            { role: "ai", content: "", tool_calls: [{ id: "c1", name: "weather", args: { city: "Oslo" } }] },
+            { role: "tool", content: "4°C", name: "weather", tool_call_id: "c1" },
+            { role: "ai", content: "It's 4°C." },
+        ];
+        expect(unfoldToolMessages(foldToolMessages(history))).toEqual(history);
+    });
+
+    it("keeps an AI turn that ended on tool activity without an answer", () => {
+        const history: HistoryMessage[] = [
+            { role: "human", content: "Go" },
+            { role: "ai", content: "", tool_calls: [{ id: "c1", name: "search", args: {} }] },
+            { role: "tool", content: "results", name: "search", tool_call_id: "c1" },
+        ];
+        expect(unfoldToolMessages(foldToolMessages(history))).toEqual(history);
+    });
+});
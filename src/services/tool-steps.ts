@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from "uuid";
+import type { AgentStreamEvent, HistoryMessage } from "@/services/api";
+
+/** One tool invocation made by the agent while producing an AI turn. */
+export interface ToolStep {
+    id: string;
+    name: string;
+    args?: Record<string, unknown>;
+    status: "running" | "done" | "error";
+    result?: string;
+    startedAt?: number;  // epoch ms, only known for live steps
+    durationMs?: number;
+}
+
+/**
+ * Folds a `tool` stream event into the step list.
+ *
+ * Structured events carry a `tool_call_id` and a `status` so start/end pairs
+ * update the same step. Legacy events only carry a human-readable `content`
+ * line; each one starts a new step and implicitly completes the previous one.
+ */
+export function applyToolEvent(steps: ToolStep[], event: AgentStreamEvent, now = Date.now()): ToolStep[] {
+    const existing = event.tool_call_id ? steps.find((s) => s.id === event.tool_call_id) : undefined;
+
+    if (existing) {
+        return steps.map((s) => s.id !== existing.id ? s : {
+            ...s,
+            args: event.args ?? s.args,
+            status: event.status === "error" ? "error" : event.status === "end" ? "done" : s.status,
+            result: event.result ?? s.result,
+            durationMs: event.status && event.status !== "start"
+                ? event.duration_ms ?? (s.startedAt !== undefined ? now - s.startedAt : undefined)
+                : s.durationMs,
+        });
+    }
+
+    const settled = event.tool_call_id ? steps : finishToolSteps(steps, "done", now);
+    return [
+        ...settled,
+        {
+            id: event.tool_call_id ?? uuidv4(),
+            name: event.name ?? event.content,
+            args: event.args,
+            status: event.status === "error" ? "error" : event.status === "end" ? "done" : "running",
+            result: event.result,
+            startedAt: now,
+            durationMs: event.duration_ms,
+        },
+    ];
+}
+
+/** Settles every still-running step, e.g. once the answer text starts or the run ends. */
+export function finishToolSteps(steps: ToolStep[], status: "done" | "error" = "done", now = Date.now()): ToolStep[] {
+    if (!steps.some((s) => s.status === "running")) return steps;
+    return steps.map((s) => s.status !== "running" ? s : {
+        ...s,
+        status,
+        durationMs: s.durationMs ?? (s.startedAt !== undefined ? now - s.startedAt : undefined),
+    });
+}
+
+/**
+ * Converts stored history into display turns: `tool` messages and the empty
+ * AI messages that only requested tool calls are folded into `toolSteps` on
+ * the AI message that follows them.
+ */
+export function foldToolMessages(history: HistoryMessage[]): (HistoryMessage & { toolSteps?: ToolStep[] })[] {
+    const turns: (HistoryMessage & { toolSteps?: ToolStep[] })[] = [];
+    let pending: ToolStep[] = [];
+
+    for (const message of history) {
+        if (message.role === "tool") {
+            const step = message.tool_call_id ? pending.find((s) => s.id === message.tool_call_id) : undefined;
+            if (step) {
+                step.status = "done";
+                step.result = message.content;
+            } else {
+                pending.push({
+                    id: message.tool_call_id ?? uuidv4(),
+                    name: message.name ?? "tool",
+                    status: "done",
+                    result: message.content,
+                });
+            }
+            continue;
+        }
+
+        if (message.role === "ai") {
+            for (const call of message.tool_calls ?? []) {
+                pending.push({ id: call.id ?? uuidv4(), name: call.name, args: call.args, status: "running" });
+            }
+            // An AI message that only requested tools is not a turn of its own
+            if (!message.content && message.tool_calls?.length) continue;
+            turns.push(pending.length ? { ...message, toolSteps: finishToolSteps(pending) } : message);
+            pending = [];
+            continue;
+        }
+
+        if (pending.length) {
+            turns.push({ role: "ai", content: "", toolSteps: finishToolSteps(pending) });
+            pending = [];
+        }
+        turns.push(message);
+    }
+
+    // Run ended on tool activity without a final answer
+    if (pending.length) turns.push({ role: "ai", content: "", toolSteps: finishToolSteps(pending) });
+    return turns;
+}
+
+/**
+ * Inverse of foldToolMessages, for sending a displayed thread back to the
+ * backend as history: an AI turn's tool steps become an AI message requesting
+ * the calls, followed by one `tool` message per result. Attachments are kept.
+ */
+export function unfoldToolMessages(
+    turns: (Pick<HistoryMessage, "role" | "content" | "attachments"> & { toolSteps?: ToolStep[] })[],
+): HistoryMessage[] {
+    return turns.flatMap(({ role, content, attachments, toolSteps }): HistoryMessage[] => {
+        const message: HistoryMessage = { role, content, ...(attachments?.length && { attachments }) };
+        if (role !== "ai" || !toolSteps?.length) return [message];
+        return [
+            { role: "ai", content: "", tool_calls: toolSteps.map(({ id, name, args }) => ({ id, name, args })) },
+            ...toolSteps.map((s): HistoryMessage => ({ role: "tool", content: s.result ?? "", name: s.name, tool_call_id: s.id })),
+            ...(content ? [message] : []),
+        ];
+    });
+}